@@ -18,6 +18,19 @@ function! s:SelectSelectionOrRange(is_selection, ...)
   endif
 endfunction
 
+" Where a selection or range is, for the result to be applied there
+function! s:EditRange(is_selection, first, last)
+  let l:range = {'kind': a:is_selection ? 'visual' : 'line'}
+  if a:is_selection
+    let l:range.start = getpos("'<")[1:2]
+    let l:range.end = getpos("'>")[1:2]
+  else
+    let l:range.start = [a:first, 0]
+    let l:range.end = [a:last, 0]
+  endif
+  return l:range
+endfunction
+
 function! s:GetVisualSelection()
   let [line_start, column_start] = getpos("'<")[1:2]
   let [line_end, column_end] = getpos("'>")[1:2]
@@ -54,15 +67,7 @@ function! coc_ai#AIEditRun(uses_range, ...) range abort
   let l:is_selection = a:uses_range && a:firstline == line("'<") && a:lastline == line("'>")
   let l:selection = s:GetSelectionOrRange(l:is_selection, a:uses_range, a:firstline, a:lastline)
 
-  let l:range = {'kind': l:is_selection ? 'visual' : 'line'}
-  if l:is_selection
-    let l:range.start = getpos("'<")[1:2]
-    let l:range.end = getpos("'>")[1:2]
-  else
-    let l:range.start = [a:firstline, 0]
-    let l:range.end = [a:lastline, 0]
-  endif
-
+  let l:range = s:EditRange(l:is_selection, a:firstline, a:lastline)
   call CocActionAsync('runCommand', 'coc-ai.edit', l:selection, l:instruction, l:range)
 endfunction
 
@@ -74,7 +79,12 @@ function! coc_ai#AIChatRun(uses_range, ...) range abort
   let l:is_selection = a:uses_range && a:firstline == line("'<") && a:lastline == line("'>")
   let l:selection = s:GetSelectionOrRange(l:is_selection, a:uses_range, a:firstline, a:lastline)
 
-  call CocActionAsync('runCommand', 'coc-ai.chat', l:selection, l:instruction)
+  if a:uses_range
+    let l:range = s:EditRange(l:is_selection, a:firstline, a:lastline)
+    call CocActionAsync('runCommand', 'coc-ai.chat', l:selection, l:instruction, l:range)
+  else
+    call CocActionAsync('runCommand', 'coc-ai.chat', l:selection, l:instruction)
+  endif
 endfunction
 
 function! coc_ai#AINewChatRun(uses_range, ...) range abort
@@ -82,7 +92,21 @@ function! coc_ai#AINewChatRun(uses_range, ...) range abort
   let l:is_selection = a:uses_range && a:firstline == line("'<") && a:lastline == line("'>")
   let l:selection = s:GetSelectionOrRange(l:is_selection, a:uses_range, a:firstline, a:lastline)
 
-  call CocActionAsync('runCommand', 'coc-ai.newChat', l:selection, l:instruction)
+  if a:uses_range
+    let l:range = s:EditRange(l:is_selection, a:firstline, a:lastline)
+    call CocActionAsync('runCommand', 'coc-ai.newChat', l:selection, l:instruction, l:range)
+  else
+    call CocActionAsync('runCommand', 'coc-ai.newChat', l:selection, l:instruction)
+  endif
+endfunction
+
+" Answer the same prompt with every model of coc-ai.compare.targets
+function! coc_ai#AICompareRun(uses_range, ...) range abort
+  let l:instruction = a:0 > 0 ? a:1 : ""
+  let l:is_selection = a:uses_range && a:firstline == line("'<") && a:lastline == line("'>")
+  let l:selection = s:GetSelectionOrRange(l:is_selection, a:uses_range, a:firstline, a:lastline)
+
+  call CocActionAsync('runCommand', 'coc-ai.compare', l:selection, l:instruction)
 endfunction
 
 "TODO Repeat last AI command
@@ -106,3 +130,11 @@ function! coc_ai#RoleCompletion(A,L,P) abort
   let l:role_list = s:role_list
   return filter(l:role_list, 'v:val =~ "^' . a:A . '"')
 endfunction
+
+function! coc_ai#TaskCompletion(A,L,P) abort
+  return filter(['edit', 'complete'], 'v:val =~ "^' . a:A . '"')
+endfunction
+
+function! coc_ai#ExportCompletion(A,L,P) abort
+  return filter(['markdown', 'json', 'html', 'aichat'], 'v:val =~ "^' . a:A . '"')
+endfunction
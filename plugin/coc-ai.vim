@@ -5,11 +5,27 @@ command! -range -nargs=? -complete=customlist,coc_ai#RoleCompletion AI        <l
 command! -range -nargs=? -complete=customlist,coc_ai#RoleCompletion AIEdit    <line1>,<line2>call coc_ai#AIEditRun(<range>, <q-args>)
 command! -range -nargs=? -complete=customlist,coc_ai#RoleCompletion AIChat    <line1>,<line2>call coc_ai#AIChatRun(<range>, <q-args>)
 command! -range -nargs=? -complete=customlist,coc_ai#RoleCompletion AINewChat <line1>,<line2>call coc_ai#AINewChatRun(<range>, <q-args>)
+command! -range -nargs=? -complete=customlist,coc_ai#RoleCompletion AICompare <line1>,<line2>call coc_ai#AICompareRun(<range>, <q-args>)
 
 command! AIToMarkdown call CocActionAsync('runCommand', 'coc-ai.chatExport')
+command! -nargs=? -complete=customlist,coc_ai#ExportCompletion AIExport call CocActionAsync('runCommand', 'coc-ai.chatExport', <q-args>)
+command! -nargs=1 -complete=file AIImport call CocActionAsync('runCommand', 'coc-ai.chatImport', <q-args>)
 function! CocAIChatExportClick(minwid, clicks, btn, modifiers)
   call CocActionAsync('runCommand', 'coc-ai.chatExport')
 endfunction
 
 command! AIStop call CocActionAsync('runCommand', 'coc-ai.stop')
+command! -nargs=? AIStopRequest call CocActionAsync('runCommand', 'coc-ai.stopRequest', <f-args>)
+command! AIStopAll call CocActionAsync('runCommand', 'coc-ai.stopAll')
+command! AIUsage call CocActionAsync('runCommand', 'coc-ai.usage')
+command! -bang -nargs=? -complete=customlist,coc_ai#TaskCompletion AIModel call CocActionAsync('runCommand', 'coc-ai.pickModel', <q-args>, <bang>0)
+command! AIClearCache call CocActionAsync('runCommand', 'coc-ai.clearCache')
+command! AIRegenerate call CocActionAsync('runCommand', 'coc-ai.regenerate')
+command! AIBranchNext call CocActionAsync('runCommand', 'coc-ai.cycleBranch', 1)
+command! AIBranchPrev call CocActionAsync('runCommand', 'coc-ai.cycleBranch', -1)
+command! -bang AIResend call CocActionAsync('runCommand', 'coc-ai.resendFrom', <bang>0)
+command! AICompact call CocActionAsync('runCommand', 'coc-ai.compact')
+command! AIApply call CocActionAsync('runCommand', 'coc-ai.applyCodeBlock')
+command! AIHistory CocList aihistory
+command! AILog call CocActionAsync('runCommand', 'coc-ai.log')
 command! AIBack call CocActionAsync('runCommand', 'coc-ai.show')
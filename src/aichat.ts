@@ -1,30 +1,87 @@
 import { events, window, workspace, Disposable } from 'coc.nvim';
 import * as toml from '@iarna/toml';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
 import {
   IAPIOptions,
   IChatPreset,
+  IEditSource,
   IEngineConfig,
   IMessage,
   IOptions,
+  IToolCall,
 } from './interface';
 import { Engine } from './engine';
 import { Task } from './task';
 import { parseTaskRole } from './roles';
+import { chatHistory } from './history';
+import { redactConfig } from './trace';
+import { getProjectConfig } from './project';
+import {
+  chatLines,
+  fromJSON,
+  fromMarkdown,
+  toHTML,
+  toJSON,
+  toMarkdown,
+  EXPORT_EXTENSIONS,
+  ExportFormat,
+} from './export';
+import { resolveImages, resolveIncludeMessage } from './include';
+import { fitContext, summaryRequest, SUMMARY_PREFIX } from './context';
+import {
+  formatToolCall,
+  mergeToolCallDeltas,
+  parseToolCall,
+  runToolCall,
+  TOOLS,
+} from './tools';
 import {
   breakUndoSequence,
+  mergeDefault,
   moveToBottom,
   moveToLineEnd,
-  resolveIncludeMessage,
+  setBufferLines,
+  sortKeys,
   CHAT_TABLE,
   REASON_START,
   REASON_FINISH,
+  KnownError,
 } from './utils';
 
 const { nvim } = workspace;
 
+/** Rounds of tool calls a single answer may take. */
+const MAX_TOOL_ROUNDS = 5;
+
+/** `<<< assistant (2/3)`, one of several answers to the same question. */
+const BRANCH_HEADER = /^<<< assistant \((\d+)\/(\d+)\)/;
+const HIDDEN_MARK = ' [hidden]';
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean) {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+function branchHeader(
+  line: string,
+  index: number,
+  total: number,
+  hidden: boolean,
+) {
+  let header = line.endsWith(HIDDEN_MARK)
+    ? line.slice(0, -HIDDEN_MARK.length)
+    : line;
+  header = BRANCH_HEADER.test(header)
+    ? header.replace(/\(\d+\/\d+\)/, `(${index}/${total})`)
+    : header.replace(/^<<< assistant/, `<<< assistant (${index}/${total})`);
+  return hidden ? header + HIDDEN_MARK : header;
+}
+
 const chatPreset: IChatPreset = {
   preset_below: 'below new {}',
   preset_tab: 'tabnew {}',
@@ -126,6 +183,60 @@ export class AIChats implements Disposable {
     return chat;
   }
 
+  /**
+   * Re-run `chat` from the `>>> user` block under the cursor, dropping what
+   * follows it, or keeping it and answering in a forked chat instead.
+   */
+  async resendFrom(chat: AIChat, fork: boolean) {
+    if (chat.engine.busy) {
+      window.showWarningMessage('coc-ai: chat is still answering');
+      return;
+    }
+    const lines = await chat.linesThroughUserBlock();
+    if (!lines) {
+      window.showWarningMessage('coc-ai: cursor is not in a >>> user block');
+      return;
+    }
+    let target = chat;
+    if (fork) {
+      target = await this.newChat();
+      await setBufferLines(target.bufnr, lines);
+    } else {
+      await nvim.call('deletebufline', [chat.name, lines.length + 1, '$']);
+    }
+    await target.syncLines();
+    await target.run('', '');
+  }
+
+  /**
+   * Rebuild a chat from a JSON or Markdown export in a new chat buffer,
+   * `.aichat` files are opened as they are.
+   */
+  async importChat(file: string) {
+    const fullPath = path.resolve(workspace.cwd, file);
+    if (fullPath.endsWith('.aichat')) {
+      await openChatFile(fullPath);
+      return;
+    }
+    const text = fs.readFileSync(fullPath, 'utf-8');
+    let messages: IMessage[];
+    let options: IOptions = {};
+    if (fullPath.endsWith('.json')) {
+      const imported = fromJSON(text);
+      ({ messages, options } = imported);
+      if (imported.skipped) {
+        window.showWarningMessage(
+          `coc-ai: ${imported.skipped} image(s) left out of the import`,
+        );
+      }
+    } else {
+      messages = fromMarkdown(text);
+    }
+    const chat = await this.newChat();
+    await setBufferLines(chat.bufnr, chatLines(messages, options));
+    await chat.syncLines();
+  }
+
   dispose(): void {
     this.#disposable.dispose();
     for (let chat of this.#chats.values()) {
@@ -136,6 +247,24 @@ export class AIChats implements Disposable {
   }
 }
 
+export function chatOpenCommand(openChatCMD: string, name: string) {
+  return openChatCMD in chatPreset
+    ? chatPreset[openChatCMD as keyof IChatPreset].replace(/{}/, name)
+    : `${openChatCMD} ${name}`;
+}
+
+/**
+ * Open a saved chat the way chats are opened, the `*.aichat` autocmd then
+ * attaches it.
+ */
+export async function openChatFile(file: string) {
+  const openChatCMD = workspace
+    .getConfiguration('coc-ai.chat')
+    .get<string>('openChatCommand', 'preset_below');
+  const name: string = await nvim.call('fnameescape', [file]);
+  await nvim.command(chatOpenCommand(openChatCMD, name));
+}
+
 export async function hideChat(aichats: AIChats) {
   const bufnr = (await nvim.call('bufnr', '%')) as number;
   try {
@@ -155,6 +284,12 @@ export class AIChat implements Task, Disposable {
   #populatesOptions: boolean;
   #codeSyntaxEnabled: boolean;
   #autoTitle: boolean;
+  #historyFile?: string;
+  #created = new Date();
+  /** Where the last selection asked about came from, see `codeBlockAtCursor`. */
+  source?: IEditSource;
+  /** Last summary of older turns, by their hash, reused while they stay. */
+  #summary?: { key: string; text: string };
 
   constructor(public name = '>>> AI chat') {
     this.#engine = new Engine('chat');
@@ -193,6 +328,7 @@ export class AIChat implements Task, Disposable {
 
   async populateOptions() {
     let options: IOptions = {
+      provider: this.engine.config.provider,
       model: this.engine.config.model,
       endpointUrl: this.engine.config.endpointUrl,
       requiresAuth: this.engine.config.requiresAuth,
@@ -207,6 +343,45 @@ export class AIChat implements Task, Disposable {
     await nvim.call('appendbufline', [this.name, 0, headers]);
   }
 
+  /** Engine config with the chat's [chat-options] applied. */
+  async chatConfig() {
+    const indexHeaderEnd = await this.#getRoleLineIndex();
+    const chatOptions = await this.#parseChatHeaderOptions(indexHeaderEnd);
+    return this.engine.mergeOptions(chatOptions ?? {});
+  }
+
+  /**
+   * Set `key` in the [chat-options] header, populating it first if missing.
+   */
+  async setChatOption(key: keyof IOptions, value: string | number | boolean) {
+    const findHeader = async () => {
+      const lines: string[] = await nvim.call('getbufline', [
+        this.name,
+        1,
+        '$',
+      ]);
+      const end = lines.findIndex((line) => line.startsWith('>>>'));
+      const header = lines.slice(0, end === -1 ? lines.length : end);
+      return { header, start: header.indexOf(`[${CHAT_TABLE}]`) };
+    };
+    let { header, start } = await findHeader();
+    if (start === -1) {
+      await this.populateOptions();
+      ({ header, start } = await findHeader());
+    }
+
+    const entry = `${key} = ${JSON.stringify(value)}`;
+    const pattern = new RegExp(`^\\s*${key}\\s*=`);
+    for (let i = start + 1; i < header.length; i++) {
+      if (header[i].startsWith('[')) break; // next table
+      if (pattern.test(header[i])) {
+        await nvim.call('setbufline', [this.name, i + 1, entry]);
+        return;
+      }
+    }
+    await nvim.call('appendbufline', [this.name, start + 1, entry]);
+  }
+
   async #generateTitle(messages: IMessage[]) {
     const prompt =
       'Summarize the following conversation into a short title (max 5 words). Do not use quotes. Do not use any intro or outro.';
@@ -224,20 +399,272 @@ export class AIChat implements Task, Disposable {
     };
 
     try {
-      let title = await this.engine.execute(this.engine.config, requestData);
+      let title = await this.engine.execute(this.engine.config, requestData, {
+        bufnr: this.bufnr,
+      });
       title = title.trim().replace(/["']/g, '').replace(/\n/g, ' ');
       if (title) {
         const newName = `>>> AI chat: ${title}`;
         await nvim.command(`keepalt file ${newName.replace(/\s/g, '\\ ')}`);
         this.name = newName;
+        await this.#saveHistory();
       }
     } catch (e) {
       // Ignore title generation errors
     }
   }
 
-  async export() {
-    const { messages: originalMessages } = await this.parseContent();
+  /**
+   * Answer the last question again, keeping the previous answers as hidden
+   * branches of it.
+   */
+  async regenerate() {
+    if (this.engine.busy) {
+      window.showWarningMessage('coc-ai: chat is still answering');
+      return;
+    }
+    const lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
+    const isUser = (line: string) => line.startsWith('>>> user');
+    const end = findLastIndex(lines, isUser);
+    if (end !== -1 && lines.slice(end + 1).some((line) => line.trim())) {
+      window.showWarningMessage(
+        'coc-ai: send or clear the pending question first',
+      );
+      return;
+    }
+    const question = findLastIndex(lines.slice(0, end), isUser);
+    const start = lines.findIndex(
+      (line, i) => i > question && line.startsWith('<<<'),
+    );
+    if (question === -1 || start === -1 || start > end) {
+      window.showWarningMessage('coc-ai: no answer to regenerate');
+      return;
+    }
+
+    const section = lines.slice(start, end);
+    while (section.length && !section[section.length - 1].trim()) {
+      section.pop();
+    }
+    // a first regenerate turns the answer into branch 1, errors included
+    const hasBranches = section.some((line) => BRANCH_HEADER.test(line));
+    if (!hasBranches && !section[0].startsWith('<<< assistant')) {
+      section.unshift('<<< assistant', '');
+    }
+    const isBranch = (line: string, i: number) =>
+      BRANCH_HEADER.test(line) || (!hasBranches && i === 0);
+    const total = section.filter(isBranch).length + 1;
+    let index = 0;
+    const updated = section.map((line, i) =>
+      isBranch(line, i) ? branchHeader(line, ++index, total, true) : line,
+    );
+    await nvim.call('deletebufline', [this.name, start + 1, '$']);
+    await nvim.call('appendbufline', [this.name, start, updated]);
+    await this.syncLines();
+
+    const { messages, chatOptions } = await this.parseContent();
+    const mergedConfig = this.engine.mergeOptions(chatOptions ?? {});
+    await this.#respond(
+      messages,
+      mergedConfig,
+      `<<< assistant (${total}/${total})`,
+    );
+  }
+
+  async #summarize(messages: IMessage[], requestConfig: IEngineConfig) {
+    const key = createHash('sha256')
+      .update(JSON.stringify(messages))
+      .digest('hex');
+    if (this.#summary?.key === key) return this.#summary.text;
+    const data = this.engine.requestData(
+      requestConfig,
+      summaryRequest(messages),
+      false,
+    );
+    const summary = await this.engine.execute(requestConfig, data, {
+      bufnr: this.bufnr,
+    });
+    if (!summary.trim()) throw new KnownError('Empty summary');
+    this.#summary = { key, text: summary.trim() };
+    return summary.trim();
+  }
+
+  /**
+   * Rewrite the chat into a summary of everything before the last question,
+   * keeping `>>> system` blocks and the last question as they are.
+   */
+  async compact() {
+    if (this.engine.busy) {
+      window.showWarningMessage('coc-ai: chat is still answering');
+      return;
+    }
+    const lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
+    const headerEnd = await this.#getRoleLineIndex();
+    const isHeader = (line: string) => /^(>>>|<<<)/.test(line);
+    let keepFrom = -1;
+    for (let i = headerEnd; i < lines.length; i++) {
+      if (!lines[i].startsWith('>>> user')) continue;
+      let end = lines.findIndex((line, j) => j > i && isHeader(line));
+      if (end === -1) end = lines.length;
+      if (lines.slice(i + 1, end).some((line) => line.trim())) keepFrom = i;
+    }
+    const older =
+      keepFrom > headerEnd
+        ? await this.#parseChatMessages(headerEnd + 1, keepFrom)
+        : [];
+    const isKept = (m: IMessage) =>
+      m.role === 'system' && !m.content.startsWith(SUMMARY_PREFIX);
+    if (!older.filter((m) => !isKept(m)).length) {
+      window.showInformationMessage('coc-ai: nothing to compact');
+      return;
+    }
+
+    const requestConfig = await this.chatConfig();
+    window.showInformationMessage('coc-ai: summarizing the chat...');
+    let summary: string;
+    try {
+      summary = await this.#summarize(
+        older.filter((m) => !isKept(m)),
+        requestConfig,
+      );
+    } catch (e) {
+      window.showErrorMessage(
+        `coc-ai: compact failed, ${e instanceof Error ? e.message : e}`,
+      );
+      return;
+    }
+    const compacted = [
+      ...older.filter(isKept).flatMap((m) => ['>>> system', '', m.content, '']),
+      '>>> system',
+      '',
+      SUMMARY_PREFIX,
+      ...summary.split(/\r?\n/),
+      '',
+      ...lines.slice(keepFrom),
+    ];
+    await nvim.call('deletebufline', [this.name, headerEnd + 1, '$']);
+    await nvim.call('appendbufline', [this.name, headerEnd, compacted]);
+    if (headerEnd === 0) {
+      await nvim.call('deletebufline', [this.name, '$']); // the placeholder
+    }
+    await this.syncLines();
+    await this.#saveHistory();
+  }
+
+  /**
+   * Buffer lines up to the end of the `>>> user` block under the cursor,
+   * without trailing blank lines.
+   */
+  async linesThroughUserBlock() {
+    const lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
+    const cursor = (await nvim.call('line', '.')) - 1;
+    const isHeader = (line: string) => /^(>>>|<<<)/.test(line);
+    const header = findLastIndex(lines.slice(0, cursor + 1), isHeader);
+    if (header === -1 || !lines[header].startsWith('>>> user')) {
+      return undefined;
+    }
+    let end = lines.findIndex((line, i) => i > header && isHeader(line));
+    if (end === -1) end = lines.length;
+    while (end > header + 1 && !lines[end - 1].trim()) end--;
+    return lines.slice(0, end);
+  }
+
+  /**
+   * Lines of the fenced code block under the cursor, if it is in an answer.
+   */
+  async codeBlockAtCursor() {
+    const lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
+    const cursor = (await nvim.call('line', '.')) - 1;
+    const isHeader = (line: string) => /^(>>>|<<<)/.test(line);
+    const header = findLastIndex(lines.slice(0, cursor + 1), isHeader);
+    if (header === -1 || !lines[header].startsWith('<<< assistant')) {
+      return undefined;
+    }
+    let open = -1;
+    for (let i = header + 1; i < lines.length && !isHeader(lines[i]); i++) {
+      if (!/^\s*(```|~~~)/.test(lines[i])) continue;
+      if (open === -1) {
+        open = i;
+      } else if (cursor <= i) {
+        return cursor >= open ? lines.slice(open + 1, i) : undefined;
+      } else {
+        open = -1;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Show the next (`step` 1) or previous (-1) branch of the answer under the
+   * cursor.
+   */
+  async cycleBranch(step: number) {
+    const lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
+    const cursor = (await nvim.call('line', '.')) - 1;
+    const isUser = (line: string) => line.startsWith('>>> user');
+    const question = findLastIndex(lines.slice(0, cursor + 1), isUser);
+    let end = lines.findIndex((line, i) => i > cursor && isUser(line));
+    if (end === -1) end = lines.length;
+
+    const branches: number[] = [];
+    for (let i = question + 1; i < end; i++) {
+      if (BRANCH_HEADER.test(lines[i])) branches.push(i);
+    }
+    if (branches.length < 2) {
+      window.showWarningMessage('coc-ai: no other answers here');
+      return;
+    }
+    const selected = branches.findIndex((i) => !lines[i].endsWith(HIDDEN_MARK));
+    const total = branches.length;
+    const next =
+      ((((selected === -1 ? 0 : selected) + step) % total) + total) % total;
+    for (let j = 0; j < total; j++) {
+      const header = branchHeader(lines[branches[j]], j + 1, total, j !== next);
+      if (header !== lines[branches[j]]) {
+        await nvim.call('setbufline', [this.name, branches[j] + 1, header]);
+      }
+    }
+    await nvim.call('cursor', [branches[next] + 1, 1]);
+    await nvim.command('silent! normal! zXzv');
+    await this.syncLines();
+  }
+
+  /**
+   * Save the chat into the history, `.aichat` chats resumed from there are
+   * written in place.
+   */
+  async #saveHistory() {
+    if (!chatHistory.enabled) return;
+    try {
+      if (this.name.endsWith('.aichat')) {
+        if (!chatHistory.owns(this.name)) return;
+        const winid: number = await nvim.call('bufwinid', [this.bufnr]);
+        if (winid !== -1) {
+          await nvim.call('win_execute', [winid, 'silent update']);
+        }
+        return;
+      }
+      const lines: string[] = await nvim.call('getbufline', [
+        this.bufnr,
+        1,
+        '$',
+      ]);
+      this.#historyFile = chatHistory.save(
+        lines,
+        {
+          title: this.name.replace(/^>>> AI chat(: | \d+)?/, ''),
+          created: this.#created,
+          updated: new Date(),
+        },
+        this.#historyFile,
+      );
+    } catch (e) {
+      console.error('coc-ai: failed to save chat history:', e);
+    }
+  }
+
+  async export(format: ExportFormat = 'markdown') {
+    const { messages: originalMessages, chatOptions } =
+      await this.parseContent();
     const messages = [...originalMessages]; // Create a mutable copy
 
     // Check if the last message is an empty user message and remove it
@@ -248,48 +675,97 @@ export class AIChat implements Task, Disposable {
       }
     }
 
-    let mdContent = '';
-    for (const msg of messages) {
-      if (msg.role === 'system' || msg.role === 'include') continue;
-
-      const roleName = msg.role === 'user' ? 'User' : 'Assistant';
-      mdContent += `## ${roleName}\n\n${msg.content}\n\n`;
+    const title = this.name.replace(/^>>> AI chat(: )?/, '');
+    // exports are shared, header and query secrets stay behind
+    const options: IOptions = chatOptions
+      ? sortKeys(redactConfig(chatOptions as IEngineConfig))
+      : {};
+    let content: string;
+    if (format === 'json') {
+      content = toJSON(messages, options);
+    } else if (format === 'html') {
+      content = toHTML(title || 'AI chat', messages, options);
+    } else if (format === 'aichat') {
+      // as written, includes and images unresolved, the header rebuilt from
+      // the redacted options
+      const lines: string[] = await nvim.call('getbufline', [
+        this.name,
+        1,
+        '$',
+      ]);
+      const start = lines.findIndex((line) => /^(>>>|<<<)/.test(line));
+      const header = Object.keys(options).length
+        ? toml.stringify({ [CHAT_TABLE]: options as any }) + '\n'
+        : '';
+      const body = start === -1 ? [] : lines.slice(start);
+      content = header + body.join('\n') + '\n';
+    } else {
+      content = toMarkdown(messages);
     }
 
-    const defaultName =
-      this.name.replace(/^>>> AI chat(: )?/, '').replace(/ /g, '_') + '.md';
+    const defaultName = title.replace(/ /g, '_') + EXPORT_EXTENSIONS[format];
     const filePath = await window.requestInput('Export to:', defaultName);
 
     if (filePath) {
       const fullPath = path.isAbsolute(filePath)
         ? filePath
         : path.join(workspace.cwd, filePath);
-      fs.writeFileSync(fullPath, mdContent);
+      fs.writeFileSync(fullPath, content);
       window.showInformationMessage(`Exported to ${fullPath}`);
     }
   }
 
-  async run(selection: string, rawPrompt: string) {
+  async run(selection: string, rawPrompt: string, source?: IEditSource) {
+    if (this.engine.busy) {
+      window.showWarningMessage('coc-ai: chat is still answering');
+      return;
+    }
+    if (source) this.source = source;
     const sep = selection === '' || rawPrompt === '' ? '' : ':\n';
     let { prompt, options } = parseTaskRole(rawPrompt, 'chat');
     prompt = prompt + sep + selection; // role.prompt + user prompt + selection
 
     const { messages, chatOptions } = await this.parseContent();
     this.syncLines();
+    const isQuestion = (m: IMessage) =>
+      m.role === 'user' || m.role === 'include';
     let lastMessage = messages.pop();
+    let images: IMessage['images'];
     if (lastMessage) {
-      if (lastMessage.role !== 'user') {
+      if (!isQuestion(lastMessage)) {
         messages.push(lastMessage);
         await this.appendBlock('>>> user');
       } else if (lastMessage.content.trim() !== '') {
         messages.push(lastMessage);
+      } else if (lastMessage.images) {
+        // the images of an empty question go with the prompt, if any
+        if (!prompt) {
+          messages.push(lastMessage);
+        } else {
+          images = lastMessage.images;
+          if (await this.#endsWithImageBlock()) {
+            await this.appendBlock('>>> user');
+          }
+        }
       }
     } else {
+      // a new chat starts with the default includes of the project
+      const includes = getProjectConfig()?.includes;
+      if (includes?.length) {
+        const content = includes.join('\n');
+        await this.appendBlock('>>> include');
+        this.append(content);
+        if (prompt) {
+          messages.push(
+            await resolveIncludeMessage({ role: 'include', content }, true),
+          );
+        }
+      }
       await this.appendBlock('>>> user');
     }
 
-    if (prompt) messages.push({ role: 'user', content: prompt });
-    if (messages[messages.length - 1].role !== 'user') {
+    if (prompt) messages.push({ role: 'user', content: prompt, images });
+    if (!isQuestion(messages[messages.length - 1])) {
       window.showInformationMessage(
         'No new incoming user message found, skipped.',
       );
@@ -298,42 +774,53 @@ export class AIChat implements Task, Disposable {
     }
     if (prompt) await this.appendBlock(prompt);
 
-    let mergedConfig: IEngineConfig;
-    if (chatOptions) mergedConfig = this.engine.mergeOptions(chatOptions);
-    mergedConfig = this.engine.mergeOptions(options); // in case no options offerd
+    // role options > chat options > coc options
+    const mergedConfig: IEngineConfig = this.engine.mergeOptions(
+      mergeDefault(chatOptions ?? {}, options ?? {}),
+    );
+    await this.#respond(messages, mergedConfig);
+  }
 
+  /**
+   * Answer `messages` into the buffer, running tool calls in between.
+   * @param branch - Header of a regenerated answer, written upfront.
+   */
+  async #respond(
+    messages: IMessage[],
+    mergedConfig: IEngineConfig,
+    branch?: string,
+  ) {
     messages.unshift({ role: 'system', content: mergedConfig.initialPrompt });
-    const data: IAPIOptions = {
-      model: mergedConfig.model,
-      messages: messages,
-      max_tokens: mergedConfig.maxTokens,
-      temperature: mergedConfig.temperature,
-      stream: true,
-    };
+    const isFirstTurn = messages.length <= 3;
+    const fitted = await fitContext(messages, mergedConfig, (older) =>
+      this.#summarize(older, mergedConfig),
+    );
+    if (fitted.note) {
+      window.showWarningMessage(
+        `coc-ai: chat exceeds the context of ${mergedConfig.model}, ${fitted.note}`,
+      );
+    }
+    messages.splice(0, messages.length, ...fitted.messages);
+    const tools =
+      mergedConfig.toolsEnabled && mergedConfig.provider === 'openai'
+        ? TOOLS
+        : undefined;
 
-    let resp = this.engine.generate(mergedConfig, data);
-    await this.appendBlock('<<< assistant');
-    let isReasoning = false;
     let fullResponse = '';
     try {
-      for await (const chunk of resp) {
-        if (chunk.type === 'reasoning_content') {
-          if (!isReasoning) {
-            await this.appendBlock(REASON_START);
-            isReasoning = true;
-          }
-          this.append(chunk.content);
-        } else {
-          if (isReasoning) {
-            await this.appendBlock(REASON_FINISH);
-            isReasoning = false;
-          }
-          this.append(chunk.content);
-          fullResponse += chunk.content;
-        }
-      }
-      if (isReasoning) {
-        await this.appendBlock(REASON_FINISH);
+      for (let round = 0; ; round++) {
+        const data = this.engine.requestData(mergedConfig, messages, true);
+        // the last round has to answer with what it got so far
+        if (tools && round < MAX_TOOL_ROUNDS) data.tools = tools;
+        const { content, toolCalls } = await this.#streamAnswer(
+          mergedConfig,
+          data,
+          round === 0 ? branch : undefined,
+        );
+        fullResponse += content;
+        if (!toolCalls.length) break;
+        messages.push({ role: 'assistant', content, tool_calls: toolCalls });
+        messages.push(...(await this.#runToolCalls(toolCalls)));
       }
     } catch (e) {
       if (
@@ -343,21 +830,25 @@ export class AIChat implements Task, Disposable {
         window.showWarningMessage('AI Request canceled or timed out.');
         return;
       }
-      throw e;
+      await this.appendBlock('<<< error');
+      this.append(e instanceof Error ? e.message : String(e));
+      if (!(e instanceof KnownError)) throw e;
     } finally {
       await this.appendBlock('>>> user');
       await this.breakUndoSequence();
+      await this.#saveHistory();
 
       // Auto-title if enabled and likely the first turn (default name)
       if (
         this.#autoTitle &&
+        fullResponse &&
         this.name.match(/^>>> AI chat( \d+)?$/) &&
-        messages.length <= 3 // system + user + assistant (we just added assistant)
+        isFirstTurn &&
+        !branch
       ) {
         // We need the assistant's response in the messages for the summary
-        // The 'messages' array currently has system + user. We need to append the assistant response.
         const historyForTitle: IMessage[] = [
-          ...messages.filter((m) => m.role !== 'system'), // Exclude system prompt for shorter context? Or keep it. Let's exclude to save tokens/focus on topic.
+          ...messages.filter((m) => m.role === 'user'),
           { role: 'assistant', content: fullResponse },
         ];
         // Run asynchronously
@@ -366,6 +857,91 @@ export class AIChat implements Task, Disposable {
     }
   }
 
+  /**
+   * Stream one answer into the buffer, returning its text and the tool calls
+   * it asked for.
+   */
+  async #streamAnswer(
+    mergedConfig: IEngineConfig,
+    data: IAPIOptions,
+    header?: string,
+  ) {
+    let answeredBy: string | undefined;
+    const resp = this.engine.generate(mergedConfig, data, {
+      bufnr: this.bufnr,
+      onFallback: (fallback) => (answeredBy = fallback.model),
+    });
+    const toolCalls: IToolCall[] = [];
+    let isReasoning = false;
+    let content = '';
+    let started = false;
+    let headerIndex = -1;
+    if (header) {
+      await this.appendBlock(header);
+      headerIndex = this.lines.length - 3;
+      started = true;
+    }
+    try {
+      for await (const chunk of resp) {
+        if (chunk.type === 'tool_call') {
+          mergeToolCallDeltas(toolCalls, chunk.toolCalls ?? []);
+          continue;
+        }
+        // deferred, so retries or failures leave no empty answer behind
+        if (!started) {
+          const by = answeredBy ? ` (${answeredBy})` : '';
+          await this.appendBlock(`<<< assistant${by}`);
+          started = true;
+        } else if (headerIndex !== -1) {
+          // a branch header is written upfront, before any fallback
+          if (answeredBy) {
+            this.lines[headerIndex] = `${header} (${answeredBy})`;
+            await nvim.call('setbufline', [
+              this.name,
+              headerIndex + 1,
+              this.lines[headerIndex],
+            ]);
+          }
+          headerIndex = -1;
+        }
+        if (chunk.type === 'reasoning_content') {
+          if (!isReasoning) {
+            await this.appendBlock(REASON_START);
+            isReasoning = true;
+          }
+          this.append(chunk.content);
+        } else {
+          if (isReasoning) {
+            await this.appendBlock(REASON_FINISH);
+            isReasoning = false;
+          }
+          this.append(chunk.content);
+          content += chunk.content;
+        }
+      }
+    } finally {
+      if (isReasoning) await this.appendBlock(REASON_FINISH);
+    }
+    return { content, toolCalls: toolCalls.filter((c) => c) };
+  }
+
+  /**
+   * Write the requested calls and their results into the buffer, as
+   * `<<< tool_call` and `>>> tool <id>` blocks.
+   */
+  async #runToolCalls(toolCalls: IToolCall[]) {
+    await this.appendBlock('<<< tool_call');
+    this.append(toolCalls.map(formatToolCall).join('\n'));
+    const results: IMessage[] = [];
+    for (const call of toolCalls) {
+      const output = await runToolCall(call);
+      await this.appendBlock(`>>> tool ${call.id}`);
+      this.append(output);
+      results.push({ role: 'tool', tool_call_id: call.id, content: output });
+    }
+    return results;
+  }
+
   get engine(): Engine {
     return this.#engine;
   }
@@ -405,6 +981,13 @@ export class AIChat implements Task, Disposable {
     this.append(value + '\n\n');
   }
 
+  /** Whether the last block is `>>> image`, with no question below. */
+  async #endsWithImageBlock() {
+    const lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
+    const header = findLastIndex(lines, (line) => /^(>>>|<<<)/.test(line));
+    return header !== -1 && lines[header].startsWith('>>> image');
+  }
+
   async #getRoleLineIndex() {
     let lines: string[] = await nvim.call('getbufline', [this.name, 1, '$']);
     let idx = 0;
@@ -424,38 +1007,99 @@ export class AIChat implements Task, Disposable {
         1,
         end ?? '$',
       ]);
-      const options: IOptions = toml.parse(lines.join('\n'));
-      return options;
+      const parsed = toml.parse(lines.join('\n'));
+      return (parsed[CHAT_TABLE] ?? {}) as IOptions;
     } catch (error) {
       window.showInformationMessage('Invalid [chat-options]', 'error');
     }
   }
 
-  async #parseChatMessages(start: number | null) {
+  async #parseChatMessages(start: number | null, end: number | '$' = '$') {
     const lines: string[] = await nvim.call('getbufline', [
       this.name,
       start ?? 1,
-      '$',
+      end,
     ]);
     let messages: IMessage[] = [];
     let isReasoning = false;
+    let isError = false;
+    let isToolCall = false;
+    let isHidden = false;
+    let isImage = false;
+    // `>>> image` paths go with the next question
+    let pendingImages: string[] = [];
+    const imageSources = new Map<IMessage, string[]>();
     for (const line of lines) {
+      // only the selected answer of a question is sent
+      if (BRANCH_HEADER.test(line)) {
+        isHidden = line.endsWith(HIDDEN_MARK);
+      } else if (/^>>> (user|system|include|image)/.test(line)) {
+        isHidden = false;
+      }
+      if (isHidden) continue;
+      if (line.startsWith('>>>') || line.startsWith('<<<')) {
+        isError = false;
+        isToolCall = false;
+        isImage = false;
+      }
+      if (line.startsWith('<<< error')) {
+        isError = true; // shown to the user only, never sent upstream
+        continue;
+      }
+      if (isError) continue;
       if (line.startsWith('>>> system')) {
         messages.push({ role: 'system', content: '' });
         continue;
       }
       if (line.startsWith('>>> user')) {
         messages.push({ role: 'user', content: '' });
+        if (pendingImages.length) {
+          imageSources.set(messages[messages.length - 1], pendingImages);
+          pendingImages = [];
+        }
+        continue;
+      }
+      if (line.startsWith('>>> image')) {
+        isImage = true;
+        continue;
+      }
+      if (isImage) {
+        if (line.trim()) pendingImages.push(line.trim());
         continue;
       }
       if (line.startsWith('>>> include')) {
         messages.push({ role: 'include', content: '' });
         continue;
       }
+      if (line.startsWith('>>> tool ')) {
+        const id = line.slice('>>> tool '.length).trim();
+        messages.push({ role: 'tool', tool_call_id: id, content: '' });
+        continue;
+      }
       if (line.startsWith('<<< assistant')) {
         messages.push({ role: 'assistant', content: '' });
         continue;
       }
+      if (line.startsWith('<<< tool_call')) {
+        // calls belong to the answer right above, if it had any text
+        const last = messages[messages.length - 1];
+        if (last?.role !== 'assistant' || last.tool_calls) {
+          messages.push({ role: 'assistant', content: '' });
+        }
+        messages[messages.length - 1].tool_calls = [];
+        isToolCall = true;
+        continue;
+      }
+      if (isToolCall) {
+        if (line.trim()) {
+          try {
+            messages[messages.length - 1].tool_calls!.push(parseToolCall(line));
+          } catch {
+            window.showWarningMessage(`coc-ai: invalid tool call: ${line}`);
+          }
+        }
+        continue;
+      }
       if (!messages.length) continue;
       if (line.trim() === REASON_START) isReasoning = true;
       if (line.trim() === REASON_FINISH) {
@@ -466,11 +1110,30 @@ export class AIChat implements Task, Disposable {
       messages[messages.length - 1].content += '\n' + line;
     }
 
+    if (pendingImages.length) {
+      // images below the last question ask about themselves
+      messages.push({ role: 'user', content: '' });
+      imageSources.set(messages[messages.length - 1], pendingImages);
+    }
+
+    // the block the project file opened the chat with stays confined
+    const projectIncludes = getProjectConfig()?.includes?.join('\n');
     for (const message of messages) {
       message.content = message.content.trim();
-      if (message.role === 'include') resolveIncludeMessage(message);
+      if (message.role === 'include') {
+        const fromProject = message.content === projectIncludes;
+        await resolveIncludeMessage(message, fromProject);
+      }
+      const sources = imageSources.get(message);
+      if (sources) {
+        const images = await resolveImages(sources);
+        if (images.length) message.images = images;
+      }
     }
-    return messages;
+    // e.g. an answer that failed before its first token
+    return messages.filter(
+      (m) => m.role !== 'assistant' || m.content || m.tool_calls?.length,
+    );
   }
 
   clearContents(keep?: number): void {
@@ -518,16 +1181,15 @@ export class AIChat implements Task, Disposable {
     const status = await this.#tryResumeWindow();
     if (!status) {
       const currentBufnr = await nvim.call('bufnr', '%');
-      const command =
-        this.#openChatCMD in chatPreset
-          ? chatPreset[this.#openChatCMD].replace(/{}/, this.name)
-          : `${this.#openChatCMD} ${this.name}`;
+      const command = chatOpenCommand(this.#openChatCMD, this.name);
       window.showInformationMessage(command);
       await nvim.command(command);
 
       this.bufnr = await nvim.call('bufnr', '%');
       if (this.bufnr === currentBufnr) {
-        throw new Error('Failed to open chat window, aborting to protect current buffer.');
+        throw new Error(
+          'Failed to open chat window, aborting to protect current buffer.',
+        );
       }
 
       if (!this.name.endsWith('.aichat')) {
@@ -577,8 +1239,7 @@ export class AIChat implements Task, Disposable {
   }
 
   async abort() {
-    if (!this.#engine.controller.signal.aborted)
-      this.#engine.controller.abort();
+    this.#engine.abort();
   }
 
   /**
@@ -1,6 +1,13 @@
-import { workspace, Disposable, Range, TextEdit, Position } from 'coc.nvim';
-
-import { IAPIOptions, IEngineConfig, IEditRange, IMessage } from './interface';
+import {
+  workspace,
+  window,
+  Disposable,
+  Range,
+  TextEdit,
+  Position,
+} from 'coc.nvim';
+
+import { IEngineConfig, IEditRange, IEditSource, IMessage } from './interface';
 import { Engine } from './engine';
 import { Task } from './task';
 import { parseTaskRole } from './roles';
@@ -41,6 +48,10 @@ export class AIEdit implements Task, Disposable {
   }
 
   async run(selection: string, rawPrompt: string, range?: IEditRange) {
+    if (this.engine.busy) {
+      window.showWarningMessage(`coc-ai: ${this.task} is still running`);
+      return;
+    }
     this.bufnr = await nvim.call('bufnr', '%');
 
     if (this.task === 'complete') {
@@ -64,19 +75,13 @@ export class AIEdit implements Task, Disposable {
       { role: 'system', content: mergedConfig.initialPrompt },
     ];
     if (prompt) messages.push({ role: 'user', content: prompt });
-    const data: IAPIOptions = {
-      model: mergedConfig.model,
-      messages: messages,
-      max_tokens: mergedConfig.maxTokens,
-      temperature: mergedConfig.temperature,
-      stream: true,
-    };
+    const data = this.engine.requestData(mergedConfig, messages, true);
 
     if (this.task === 'edit') {
       await this.setupDiffView(selection);
     }
 
-    let resp = this.engine.generate(mergedConfig, data);
+    let resp = this.engine.generate(mergedConfig, data, { bufnr: this.bufnr });
     let reasonBlock = '';
     let accumulatedContent = '';
 
@@ -118,6 +123,34 @@ export class AIEdit implements Task, Disposable {
     }
   }
 
+  /**
+   * Show `lines` against the range of `source` in the diff view, to be
+   * applied there by `apply`, e.g. a code block of a chat answer.
+   */
+  async preview(lines: string[], source: IEditSource) {
+    if (this.engine.busy) {
+      window.showWarningMessage(`coc-ai: ${this.task} is still running`);
+      return;
+    }
+    const { start, end, kind } = source.range;
+    this.bufnr = source.bufnr;
+    this.originalBufnr = source.bufnr;
+    this.originalRange = source.range;
+    const current: string[] = await nvim.call('getbufline', [
+      source.bufnr,
+      start[0],
+      end[0],
+    ]);
+    if (kind !== 'line' && current.length) {
+      // same columns as `apply` replaces
+      const last = current.length - 1;
+      current[last] = current[last].slice(0, end[1]);
+      current[0] = current[0].slice(start[1] - 1);
+    }
+    await this.setupDiffView(current.join('\n'));
+    await setBufferLines(this.aiBufnr, [...INSTRUCTIONS, ...lines]);
+  }
+
   async setupDiffView(selection: string) {
     // Create new tab with empty buffer (AI Output) -> Left Side
     await nvim.command('tabnew');
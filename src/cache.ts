@@ -0,0 +1,108 @@
+import { workspace } from 'coc.nvim';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { sortKeys } from './utils';
+
+interface ICacheEntry {
+  value: string;
+  created: number;
+  used: number;
+}
+
+/**
+ * Persistent LRU cache of non-stream answers. Keys hash the full request,
+ * url, headers and body, so entries are bound to one endpoint and one set of
+ * credentials without storing either.
+ */
+export class ResponseCache {
+  #file?: string;
+  #entries?: Map<string, ICacheEntry>;
+
+  /** Set up by `activate`, the cache stays off without a storage path. */
+  init(storagePath: string) {
+    this.#file = path.join(storagePath, 'execute-cache.json');
+  }
+
+  key(request: { url: string; headers: any; body: any }) {
+    return createHash('sha256')
+      .update(JSON.stringify(sortKeys(request)))
+      .digest('hex');
+  }
+
+  get(key: string): string | undefined {
+    const entries = this.#load();
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.created > this.#ttl * 1000) {
+      entries.delete(key);
+      return undefined;
+    }
+    // kept in memory, written with the next `set` or `clear`
+    entry.used = Date.now();
+    return entry.value;
+  }
+
+  set(key: string, value: string) {
+    const entries = this.#load();
+    const now = Date.now();
+    entries.set(key, { value, created: now, used: now });
+    this.#evict();
+    this.#save();
+  }
+
+  clear() {
+    const count = this.#load().size;
+    this.#entries = new Map();
+    this.#save();
+    return count;
+  }
+
+  get #ttl() {
+    return workspace.getConfiguration('coc-ai.cache').get<number>('ttl', 0);
+  }
+
+  /** Drop expired entries, then the least recently used beyond the cap. */
+  #evict() {
+    const entries = this.#entries!;
+    const config = workspace.getConfiguration('coc-ai.cache');
+    const maxEntries = config.get<number>('maxEntries', 500);
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (now - entry.created > this.#ttl * 1000) entries.delete(key);
+    }
+    if (entries.size <= maxEntries) return;
+    const byUse = [...entries].sort(([, a], [, b]) => a.used - b.used);
+    for (const [key] of byUse.slice(0, entries.size - maxEntries)) {
+      entries.delete(key);
+    }
+  }
+
+  #load() {
+    if (this.#entries) return this.#entries;
+    this.#entries = new Map();
+    if (this.#file && fs.existsSync(this.#file)) {
+      try {
+        const stored = JSON.parse(fs.readFileSync(this.#file, 'utf-8'));
+        this.#entries = new Map(Object.entries(stored));
+      } catch {} // a broken cache is just an empty one
+    }
+    return this.#entries;
+  }
+
+  #save() {
+    if (!this.#file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.#file), { recursive: true });
+      fs.writeFileSync(
+        this.#file,
+        JSON.stringify(Object.fromEntries(this.#entries!)),
+      );
+    } catch (error) {
+      console.error('coc-ai: failed to write cache:', error);
+    }
+  }
+}
+
+export const responseCache = new ResponseCache();
@@ -0,0 +1,143 @@
+import { workspace } from 'coc.nvim';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+
+import { KnownError, sleep, sortKeys } from './utils';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface ICassetteEntry {
+  key: string;
+  url: string;
+  body: Record<string, any>;
+  status: number;
+  /** Body of a non-stream response. */
+  response?: any;
+  /** Raw text of a streamed response, with the delay before each piece. */
+  chunks?: { delay: number; text: string }[];
+}
+
+/** Response shape shared by live and replayed requests. */
+export interface ICassetteResponse {
+  status: number;
+  data: any;
+}
+
+/**
+ * Requests recorded into, or replayed from, a directory holding one JSON
+ * file per request, named by the hash of its normalized payload.
+ */
+export class Cassette {
+  constructor(
+    public mode: Exclude<CassetteMode, 'off'>,
+    public dir: string,
+    public speed: number,
+  ) {}
+
+  /** Query parameters are left out, they may hold API keys. */
+  key(url: string, body: Record<string, any>) {
+    const payload = JSON.stringify(sortKeys({ url: url.split('?')[0], body }));
+    return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+  }
+
+  #file(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  #save(entry: ICassetteEntry) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.#file(entry.key), JSON.stringify(entry, null, 2));
+  }
+
+  /** Streams end early, pauses included, once `signal` aborts. */
+  replay(
+    url: string,
+    body: Record<string, any>,
+    signal?: AbortSignal,
+  ): ICassetteResponse {
+    const key = this.key(url, body);
+    let entry: ICassetteEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(this.#file(key), 'utf-8'));
+    } catch {
+      throw new KnownError(
+        `No cassette entry ${key} in ${this.dir}, record it first`,
+      );
+    }
+    if (!entry.chunks) return { status: entry.status, data: entry.response };
+    return {
+      status: entry.status,
+      data: this.#replayStream(entry.chunks, signal),
+    };
+  }
+
+  async *#replayStream(
+    chunks: NonNullable<ICassetteEntry['chunks']>,
+    signal?: AbortSignal,
+  ) {
+    for (const { delay, text } of chunks) {
+      if (this.speed > 0 && delay > 0) await sleep(delay / this.speed, signal);
+      if (signal?.aborted) return;
+      yield Buffer.from(text);
+    }
+  }
+
+  /**
+   * Save `resp` under the key of the request. Streams are passed through and
+   * only saved once they have been read to the end.
+   */
+  record(
+    url: string,
+    body: Record<string, any>,
+    resp: ICassetteResponse,
+  ): ICassetteResponse {
+    const entry: ICassetteEntry = {
+      key: this.key(url, body),
+      url: url.split('?')[0],
+      body,
+      status: resp.status,
+    };
+    if (!body.stream) {
+      this.#save({ ...entry, response: resp.data });
+      return resp;
+    }
+    return { ...resp, data: this.#recordStream(entry, resp.data) };
+  }
+
+  async *#recordStream(entry: ICassetteEntry, stream: AsyncIterable<Buffer>) {
+    const decoder = new TextDecoder('utf-8');
+    const chunks: NonNullable<ICassetteEntry['chunks']> = [];
+    let last = Date.now();
+    for await (const value of stream) {
+      const now = Date.now();
+      chunks.push({
+        delay: now - last,
+        text: decoder.decode(value, { stream: true }),
+      });
+      last = now;
+      yield value;
+    }
+    const rest = decoder.decode();
+    if (rest) chunks.push({ delay: 0, text: rest });
+    this.#save({ ...entry, chunks });
+  }
+}
+
+/** The cassette set up by `coc-ai.cassette.*`, undefined if off. */
+export function getCassette(): Cassette | undefined {
+  const config = workspace.getConfiguration('coc-ai.cassette');
+  const mode = config.get<CassetteMode>('mode', 'off');
+  if (mode === 'off') return undefined;
+  const dir = config.get<string>('path', '').replace(/^~/, os.homedir());
+  if (!dir) {
+    throw new KnownError('coc-ai.cassette.path is required to ' + mode);
+  }
+  return new Cassette(
+    mode,
+    path.resolve(workspace.root, dir),
+    config.get<number>('speed', 1),
+  );
+}
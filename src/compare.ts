@@ -0,0 +1,202 @@
+import { window, workspace } from 'coc.nvim';
+
+import { chatOpenCommand } from './aichat';
+import { Engine } from './engine';
+import { IMessage, IOptions } from './interface';
+import { getRoles, parseTaskRole } from './roles';
+import { formatUsage } from './usage';
+import { mergeDefault, setBufferLines } from './utils';
+
+const { nvim } = workspace;
+
+interface IComparePane {
+  /** Entry of `coc-ai.compare.targets`, a model or `/role`s. */
+  target: string;
+  bufnr: number;
+  engine: Engine;
+  options: IOptions;
+  prompt: string;
+  answer: string;
+  stats: string;
+  done: boolean;
+}
+
+/**
+ * Options and role prompt of a target, `/role`s or else a model name.
+ */
+function resolveTarget(target: string) {
+  if (!target.startsWith('/')) {
+    return { prompt: '', options: { model: target } };
+  }
+  const roles = getRoles() ?? {};
+  const unknown = target
+    .split(/\s+/)
+    .filter((name) => !name.startsWith('/') || !(name.slice(1) in roles));
+  if (unknown.length) throw new Error(`unknown role ${unknown.join(' ')}`);
+  const { prompt, options } = parseTaskRole(target, 'chat');
+  return { prompt: prompt ?? '', options: options ?? {} };
+}
+
+function seconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * `:AICompare`, one prompt answered by several models or roles at once, each
+ * streaming into a split of its own. An answer can be promoted into a chat.
+ */
+export class AICompare {
+  #panes: IComparePane[] = [];
+
+  async run(selection: string, rawPrompt: string) {
+    const targets = workspace
+      .getConfiguration('coc-ai.compare')
+      .get<string[]>('targets', []);
+    if (targets.length < 2) {
+      window.showWarningMessage(
+        'coc-ai: list two or more models or roles in coc-ai.compare.targets',
+      );
+      return;
+    }
+    const sep = selection === '' || rawPrompt === '' ? '' : ':\n';
+    let { prompt, options } = parseTaskRole(rawPrompt, 'chat');
+    prompt = prompt + sep + selection; // role.prompt + user prompt + selection
+    if (!prompt) {
+      window.showWarningMessage('coc-ai: nothing to compare, no prompt given');
+      return;
+    }
+
+    const panes: IComparePane[] = [];
+    for (const target of targets) {
+      try {
+        const resolved = resolveTarget(target);
+        panes.push({
+          target,
+          bufnr: -1,
+          engine: new Engine('chat'),
+          options: mergeDefault(options ?? {}, resolved.options),
+          prompt: resolved.prompt + prompt,
+          answer: '',
+          stats: 'waiting...',
+          done: false,
+        });
+      } catch (error: any) {
+        window.showWarningMessage(
+          `coc-ai: ${target} skipped: ${error.message}`,
+        );
+      }
+    }
+    if (!panes.length) return;
+
+    await this.close();
+    await this.#layout(panes);
+    this.#panes = panes;
+    await Promise.all(panes.map((pane) => this.#stream(pane)));
+  }
+
+  /**
+   * One window per pane: the first opened like a chat, the others split off
+   * it across the other axis and sized evenly.
+   */
+  async #layout(panes: IComparePane[]) {
+    const openChatCMD = workspace
+      .getConfiguration('coc-ai.chat')
+      .get<string>('openChatCommand', 'preset_below');
+    const first = chatOpenCommand(openChatCMD, 'coc-ai-compare-1');
+    const vertical = /vnew|vsplit|vert/.test(first);
+    const split = vertical ? 'belowright new' : 'belowright vnew';
+    const winids: number[] = [];
+    for (let i = 0; i < panes.length; i++) {
+      await nvim.command(i === 0 ? first : `${split} coc-ai-compare-${i + 1}`);
+      await nvim.command(
+        'setlocal buftype=nofile bufhidden=wipe noswapfile filetype=markdown',
+      );
+      await nvim.command(
+        'nnoremap <buffer><silent> p :CocCommand coc-ai.comparePromote<CR>',
+      );
+      await nvim.command('nnoremap <buffer><silent> q :close<CR>');
+      panes[i].bufnr = await nvim.call('bufnr', '%');
+      winids.push(await nvim.call('win_getid'));
+    }
+    const getSize = vertical ? 'winheight' : 'winwidth';
+    const total = (
+      await Promise.all(winids.map((id) => nvim.call(getSize, [id])))
+    ).reduce((sum: number, size: number) => sum + size, 0);
+    const size = Math.floor(total / winids.length);
+    const resize = vertical ? 'resize' : 'vertical resize';
+    for (const winid of winids.slice(0, -1)) {
+      await nvim.call('win_execute', [winid, `${resize} ${size}`]);
+    }
+    await nvim.call('win_gotoid', [winids[0]]);
+  }
+
+  async #render(pane: IComparePane) {
+    const header = `# ${pane.target}: ${pane.stats}`;
+    await setBufferLines(pane.bufnr, [header, '', ...pane.answer.split('\n')]);
+  }
+
+  async #stream(pane: IComparePane) {
+    const requestConfig = pane.engine.mergeOptions(pane.options);
+    const messages: IMessage[] = [
+      { role: 'system', content: requestConfig.initialPrompt },
+      { role: 'user', content: pane.prompt },
+    ];
+    const data = pane.engine.requestData(requestConfig, messages, true);
+    const start = Date.now();
+    let firstToken: number | undefined;
+    try {
+      pane.stats = `${requestConfig.model}, streaming...`;
+      await this.#render(pane);
+      const chunks = pane.engine.generate(requestConfig, data, {
+        bufnr: pane.bufnr,
+      });
+      for await (const chunk of chunks) {
+        if (chunk.type !== 'content' || !chunk.content) continue;
+        firstToken ??= Date.now() - start;
+        pane.answer += chunk.content;
+        await this.#render(pane);
+      }
+      pane.stats =
+        `${requestConfig.model}, ${seconds(Date.now() - start)}, ` +
+        `first token ${seconds(firstToken ?? 0)}, ` +
+        formatUsage('usage', pane.engine.usage);
+    } catch (error: any) {
+      pane.stats = `${requestConfig.model}, failed: ${error.message ?? error}`;
+    } finally {
+      pane.done = true;
+      // the window may be closed already
+      if (await nvim.call('bufexists', [pane.bufnr])) await this.#render(pane);
+    }
+  }
+
+  /**
+   * The question and the answer of the pane under the cursor as the
+   * messages of a new chat, with the options of its target.
+   */
+  async promote() {
+    const bufnr: number = await nvim.call('bufnr', '%');
+    const pane = this.#panes.find((p) => p.bufnr === bufnr);
+    if (!pane) {
+      window.showWarningMessage('coc-ai: not in a compare window');
+      return undefined;
+    }
+    if (!pane.done || !pane.answer) {
+      window.showWarningMessage(`coc-ai: no answer of ${pane.target} yet`);
+      return undefined;
+    }
+    const messages: IMessage[] = [
+      { role: 'user', content: pane.prompt },
+      { role: 'assistant', content: pane.answer.trim() },
+    ];
+    return { messages, options: pane.options };
+  }
+
+  /** Stop the last comparison and close its windows. */
+  async close() {
+    for (const pane of this.#panes) {
+      pane.engine.abort();
+      await nvim.command(`silent! bwipeout ${pane.bufnr}`);
+    }
+    this.#panes = [];
+  }
+}
@@ -12,7 +12,7 @@ import {
   TextEdit,
 } from 'coc.nvim';
 import { Engine } from './engine';
-import { IAPIOptions, IMessage } from './interface';
+import { IMessage } from './interface';
 
 interface ICachedCompletion {
   position: Position;
@@ -165,25 +165,20 @@ ${snippet}
     // --- Prepare Request ---
     const promptContent = await this.buildContext(document, position);
 
+    const requestConfig = this.engine.mergeOptions();
     const messages: IMessage[] = [
-      { role: 'system', content: this.engine.config.initialPrompt },
+      { role: 'system', content: requestConfig.initialPrompt },
       { role: 'user', content: promptContent },
     ];
 
-    const requestData: IAPIOptions = {
-      model: this.engine.config.model,
-      messages: messages,
-      max_tokens: this.engine.config.maxTokens,
-      temperature: this.engine.config.temperature,
-      stream: false,
-    };
+    const requestData = this.engine.requestData(requestConfig, messages, false);
 
     let completionText = '';
+    this.engine.abort(); // superseded by the newer cursor position
     try {
-      completionText = await this.engine.execute(
-        this.engine.config,
-        requestData,
-      );
+      completionText = await this.engine.execute(requestConfig, requestData, {
+        bufnr: currentDoc.bufnr,
+      });
     } catch (error) {
       return;
     }
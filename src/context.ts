@@ -0,0 +1,170 @@
+import { workspace } from 'coc.nvim';
+
+import { IEngineConfig, IMessage } from './interface';
+
+/** Per message overhead of the chat format, roughly. */
+const MESSAGE_OVERHEAD = 4;
+/** Characters of each message fed into a summary request. */
+const MAX_SUMMARY_INPUT = 4000;
+
+export const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+/**
+ * Rough token count, about four characters per token for English and code.
+ * Good enough to stay under a limit, not for billing.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function countTokens(messages: IMessage[]) {
+  return messages.reduce(
+    (sum, m) =>
+      sum +
+      MESSAGE_OVERHEAD +
+      estimateTokens(m.content) +
+      (m.tool_calls ? estimateTokens(JSON.stringify(m.tool_calls)) : 0),
+    0,
+  );
+}
+
+/**
+ * Context window of the model, `contextLimit` or `coc-ai.contextLimits`.
+ * Undefined if unknown, then nothing is trimmed.
+ */
+export function contextLimit(requestConfig: IEngineConfig) {
+  if (requestConfig.contextLimit) return requestConfig.contextLimit;
+  const limits = workspace
+    .getConfiguration('coc-ai')
+    .get<Record<string, number>>('contextLimits', {});
+  return limits[requestConfig.model] || undefined;
+}
+
+/**
+ * Messages grouped by turn, each starting at the user (or include) messages
+ * before an answer. The last turn is the question being asked.
+ */
+function splitTurns(messages: IMessage[]) {
+  const system: IMessage[] = [];
+  const turns: IMessage[][] = [];
+  for (const message of messages) {
+    const turn = turns[turns.length - 1];
+    if (!turn && message.role === 'system') {
+      system.push(message);
+    } else if (
+      !turn ||
+      ((message.role === 'user' || message.role === 'include') &&
+        turn.some((m) => m.role === 'assistant' || m.role === 'tool'))
+    ) {
+      turns.push([message]);
+    } else {
+      turn.push(message);
+    }
+  }
+  return { system, turns };
+}
+
+/** A transcript of `messages` to be summarized. */
+export function summaryRequest(messages: IMessage[]): IMessage[] {
+  const transcript = messages
+    .filter((m) => m.content)
+    .map((m) => {
+      const content =
+        m.content.length > MAX_SUMMARY_INPUT
+          ? m.content.slice(0, MAX_SUMMARY_INPUT) + '\n...'
+          : m.content;
+      return `${m.role}: ${content}`;
+    })
+    .join('\n\n');
+  return [
+    {
+      role: 'system',
+      content:
+        'Summarize the conversation below for your own later reference. ' +
+        'Keep facts, decisions, open questions, file names and code ' +
+        'identifiers. Be concise, no intro or outro.',
+    },
+    { role: 'user', content: transcript },
+  ];
+}
+
+function capIncludes(messages: IMessage[], excess: number) {
+  let capped = 0;
+  // largest first, the question being asked is never touched
+  const includes = messages
+    .slice(0, -1)
+    .filter((m) => m.role === 'include')
+    .sort((a, b) => b.content.length - a.content.length);
+  for (const message of includes) {
+    if (excess <= 0) break;
+    const tokens = estimateTokens(message.content);
+    const keep = Math.max(0, tokens - excess);
+    const chars = keep * 4;
+    const trimmed = message.content.length - chars;
+    message.content =
+      message.content.slice(0, chars) +
+      `\n... [${trimmed} chars trimmed to fit the context]`;
+    excess -= tokens - keep;
+    capped++;
+  }
+  return capped;
+}
+
+/**
+ * Fit `messages` into the context of the model, leaving `maxTokens` for the
+ * answer. Returns the messages to send and a note of what was trimmed, if
+ * anything.
+ */
+export async function fitContext(
+  messages: IMessage[],
+  requestConfig: IEngineConfig,
+  summarize: (older: IMessage[]) => Promise<string>,
+): Promise<{ messages: IMessage[]; note?: string }> {
+  const limit = contextLimit(requestConfig);
+  const strategy = requestConfig.contextStrategy ?? 'drop';
+  if (!limit || strategy === 'off') return { messages };
+  const budget = limit - (requestConfig.maxTokens || 0);
+  const total = countTokens(messages);
+  if (total <= budget) return { messages };
+
+  const notes: string[] = [];
+  let fitted = messages.map((m) => ({ ...m }));
+  if (strategy === 'capIncludes') {
+    const capped = capIncludes(fitted, total - budget);
+    if (capped) notes.push(`capped ${capped} include(s)`);
+    if (countTokens(fitted) <= budget) {
+      return { messages: fitted, note: notes.join(', ') };
+    }
+  }
+
+  const { system, turns } = splitTurns(fitted);
+  let dropped = 0;
+  while (
+    turns.length - dropped > 1 &&
+    countTokens([...system, ...turns.slice(dropped).flat()]) > budget
+  ) {
+    dropped++;
+  }
+  const older = turns.slice(0, dropped).flat();
+  const kept = turns.slice(dropped).flat();
+  if (strategy === 'summarize' && older.length) {
+    try {
+      const summary = await summarize(older);
+      const note: IMessage = {
+        role: 'system',
+        content: `${SUMMARY_PREFIX}\n${summary}`,
+      };
+      notes.push(`summarized ${dropped} oldest turn(s)`);
+      return {
+        messages: [...system, note, ...kept],
+        note: notes.join(', '),
+      };
+    } catch {
+      notes.push('summary failed'); // dropping them still fits
+    }
+  }
+  if (dropped) notes.push(`dropped ${dropped} oldest turn(s)`);
+  fitted = [...system, ...kept];
+  if (countTokens(fitted) > budget) notes.push('still over the limit');
+  return { messages: fitted, note: notes.join(', ') };
+}
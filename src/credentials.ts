@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as toml from '@iarna/toml';
+
+import { IEngineConfig, IToken } from './interface';
+import { KnownError } from './utils';
+
+const execAsync = promisify(exec);
+const COMMAND_TIMEOUT = 10 * 1000;
+
+const commandCache: Map<string, { token: IToken; expires: number }> = new Map();
+
+function parseRawToken(raw: string): IToken {
+  const elements = raw.trim().split(',');
+  const apiKey = elements[0].trim();
+  const orgId = elements.length > 1 ? elements[1].trim() : null;
+  return { apiKey, orgId };
+}
+
+function fromEnv(name: string): IToken {
+  const value = process.env[name];
+  if (!value?.trim()) {
+    throw new KnownError(`Missing API key: $${name} is empty or unset`);
+  }
+  return parseRawToken(value);
+}
+
+async function fromCommand(command: string, ttl: number): Promise<IToken> {
+  const cached = commandCache.get(command);
+  if (cached && cached.expires > Date.now()) return cached.token;
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execAsync(command, { timeout: COMMAND_TIMEOUT }));
+  } catch (error: any) {
+    const reason = error.stderr?.trim() || error.message;
+    throw new KnownError(`apiKeyCommand \`${command}\` failed: ${reason}`);
+  }
+  // only the first line, e.g. `pass show` may print extra fields below
+  const firstLine = stdout.split(/\r?\n/)[0];
+  if (!firstLine.trim()) {
+    throw new KnownError(`apiKeyCommand \`${command}\` printed no API key`);
+  }
+  const token = parseRawToken(firstLine);
+  if (ttl > 0) {
+    commandCache.set(command, { token, expires: Date.now() + ttl * 1000 });
+  }
+  return token;
+}
+
+function tokenCandidates(config: IEngineConfig) {
+  let host = '';
+  try {
+    host = new URL(config.endpointUrl).host;
+  } catch {}
+  return [config.endpointUrl, host, config.provider];
+}
+
+/** The entry of a token file table keyed by the endpoint or provider. */
+function fromTable(
+  table: Record<string, any>,
+  config: IEngineConfig,
+): IToken | undefined {
+  for (const key of tokenCandidates(config)) {
+    const entry = key ? table[key] : undefined;
+    if (typeof entry?.apiKey === 'string') {
+      return { apiKey: entry.apiKey, orgId: entry.orgId ?? null };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A token file holds either a raw `key[,orgId]` string or TOML tables keyed by
+ * provider, endpoint host or full endpoint url:
+ *
+ *   [anthropic]
+ *   apiKey = "..."
+ *
+ *   ["api.deepseek.com"]
+ *   apiKey = "..."
+ *   orgId = "..."
+ */
+function fromFile(config: IEngineConfig): IToken {
+  const tokenPath = config.tokenPath;
+  let content: string;
+  try {
+    content = fs.readFileSync(tokenPath, 'utf-8');
+  } catch (error: any) {
+    throw new KnownError(
+      `Missing API key: cannot read tokenPath ${tokenPath} (${error.code ?? error.message})`,
+    );
+  }
+  if (!content.trim()) {
+    throw new KnownError(`Missing API key: tokenPath ${tokenPath} is empty`);
+  }
+
+  let table: Record<string, any>;
+  try {
+    table = toml.parse(content);
+  } catch {
+    return parseRawToken(content); // legacy `key,orgId` file
+  }
+  const keyed = fromTable(table, config);
+  if (keyed) return keyed;
+  if (typeof table.apiKey === 'string') {
+    return { apiKey: table.apiKey, orgId: table.orgId ?? null };
+  }
+  throw new KnownError(
+    `Missing API key: no apiKey in ${tokenPath} for ` +
+      tokenCandidates(config)
+        .filter((c) => c)
+        .map((c) => `[${c}]`)
+        .join(', '),
+  );
+}
+
+/**
+ * Sources by precedence: apiKeyEnv > apiKeyCommand > tokenPath.
+ */
+export async function resolveToken(config: IEngineConfig): Promise<IToken> {
+  if (config.apiKeyEnv) return fromEnv(config.apiKeyEnv);
+  if (config.apiKeyCommand) {
+    return fromCommand(config.apiKeyCommand, config.apiKeyCacheTTL ?? 0);
+  }
+  return fromFile(config);
+}
+
+/**
+ * Token of a provider that works without one, e.g. a local ollama: only from
+ * `apiKeyEnv` or a token file entry keyed by its endpoint or provider, so the
+ * key of another provider is never sent to it. Null if there is none.
+ */
+export function resolveOptionalToken(config: IEngineConfig): IToken | null {
+  if (config.apiKeyEnv) return fromEnv(config.apiKeyEnv);
+  try {
+    const table = toml.parse(fs.readFileSync(config.tokenPath, 'utf-8'));
+    return fromTable(table, config) ?? null;
+  } catch {
+    return null; // no token file, or a legacy `key,orgId` one
+  }
+}
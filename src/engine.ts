@@ -1,6 +1,5 @@
 import { workspace, window } from 'coc.nvim';
 import * as os from 'os';
-import * as fs from 'fs';
 import { TextDecoder } from 'util';
 import axios from 'axios';
 import { HttpProxyAgent } from 'http-proxy-agent';
@@ -8,31 +7,83 @@ import { HttpsProxyAgent } from 'https-proxy-agent';
 
 import {
   IAPIOptions,
-  IChunk,
   IEngineConfig,
+  IMessage,
   IOptions,
+  IProjectConfig,
+  IRequestContext,
   IToken,
+  IUsage,
+  TaskName,
 } from './interface';
-import { AbortController, mergeDefault } from './utils';
+import { AbortController, mergeDefault, sleep } from './utils';
+import { getProvider } from './provider';
+import { createAPIError, isRetryable, parseRetryAfter } from './errors';
+import { NDJSONParser, SSEParser } from './stream';
+import { IRequestHandle, requestRegistry } from './requests';
+import { addUsage, emptyUsage, usageTracker } from './usage';
+import { resolveOptionalToken, resolveToken } from './credentials';
+import { startTrace, TraceSpan } from './trace';
+import { getCassette, ICassetteResponse } from './cassette';
+import { responseCache } from './cache';
+import { getProjectConfig } from './project';
 
 const config = workspace.getConfiguration('coc-ai');
 export const defaultEngineConfig = config.get<IEngineConfig>('global')!;
 
+const modelCache: Map<string, string[]> = new Map();
+
+/**
+ * Options of the primary left out of a fallback to another endpoint, token
+ * file or provider.
+ */
+const ENDPOINT_BOUND_KEYS = [
+  'apiKeyEnv',
+  'apiKeyCommand',
+  'headers',
+  'queryParams',
+  'authHeaderName',
+  'authScheme',
+] as const;
+
+/** Longest `Retry-After` in seconds worth waiting for, else fall back. */
+const MAX_RETRY_AFTER = 60;
+
 export class Engine {
-  config: IEngineConfig;
-  controller: AbortController;
+  /** Tokens consumed by all requests of this engine. */
+  usage: IUsage = emptyUsage();
+  #handles: Set<IRequestHandle> = new Set();
+  #baseConfig: IEngineConfig;
+  /** Options picked during the session, e.g. a model. */
+  #sessionOptions: IOptions = {};
 
-  constructor(public configName: 'chat' | 'edit' | 'complete' | 'tab') {
-    this.config = this.#initEngineConfig();
-    this.controller = new AbortController();
+  constructor(public configName: TaskName) {
+    this.#baseConfig = this.#initEngineConfig();
   }
 
-  /**
-   * Merge and normalize: coc-ai.[name] & coc-ai.global
-   */
+  /** Merge: coc-ai.[name] & coc-ai.global */
   #initEngineConfig() {
     let specificConfig = config.get<Partial<IEngineConfig>>(this.configName)!;
-    let engineConfig = mergeDefault(defaultEngineConfig, specificConfig);
+    return mergeDefault(defaultEngineConfig, specificConfig);
+  }
+
+  /**
+   * Merge and normalize: session options, `.coc-ai.toml` options-[name] &
+   * options, coc-ai.[name] & coc-ai.global. The project file is read on
+   * every call, so its edits apply to the next request.
+   */
+  get config(): IEngineConfig {
+    return this.#layerConfig(getProjectConfig());
+  }
+
+  #layerConfig(project?: IProjectConfig) {
+    let engineConfig = this.#baseConfig;
+    if (project?.options) {
+      engineConfig = mergeDefault(engineConfig, project.options);
+    }
+    const taskOptions = project?.[`options-${this.configName}`];
+    if (taskOptions) engineConfig = mergeDefault(engineConfig, taskOptions);
+    engineConfig = mergeDefault(engineConfig, this.#sessionOptions);
     return this.#normalizeEngineConfig(engineConfig);
   }
 
@@ -41,131 +92,504 @@ export class Engine {
     return engineConfig;
   }
 
+  /**
+   * Config of a request: 1. chat options 2. role options over `config`, then
+   * the `systemPrompt` of the project appended to whatever `initialPrompt`
+   * they left.
+   */
   mergeOptions(override: IOptions = {}) {
-    // 1. chat options 2. role options
-    if (!Object.keys(override).length) return this.config;
-    let mergedConfig = mergeDefault(this.config, override);
+    const project = getProjectConfig();
+    const mergedConfig = mergeDefault(this.#layerConfig(project), override);
+    if (project?.systemPrompt) {
+      mergedConfig.initialPrompt = [
+        mergedConfig.initialPrompt,
+        project.systemPrompt,
+      ]
+        .filter((prompt) => prompt)
+        .join('\n\n');
+    }
     return this.#normalizeEngineConfig(mergedConfig);
   }
 
-  get token(): IToken {
-    let apiKeyParamValue: string = '';
+  /**
+   * Request data for `messages` with all sampling options of `requestConfig`.
+   */
+  requestData(
+    requestConfig: IEngineConfig,
+    messages: IMessage[],
+    stream: boolean,
+  ): IAPIOptions {
+    const { responseFormat } = requestConfig;
+    return {
+      model: requestConfig.model,
+      messages: messages.map((m) =>
+        m.role === 'include' ? { ...m, role: 'user' } : m,
+      ),
+      max_tokens: requestConfig.maxTokens,
+      temperature: requestConfig.temperature,
+      stream,
+      top_p: requestConfig.topP,
+      stop: requestConfig.stop,
+      seed: requestConfig.seed,
+      presence_penalty: requestConfig.presencePenalty,
+      frequency_penalty: requestConfig.frequencyPenalty,
+      response_format:
+        typeof responseFormat === 'string'
+          ? { type: responseFormat }
+          : responseFormat,
+      reasoning_effort: requestConfig.reasoningEffort,
+    };
+  }
+
+  async #resolveToken(requestConfig: IEngineConfig): Promise<IToken | null> {
+    if (!requestConfig.requiresAuth) return null;
+    if (getProvider(requestConfig.provider).authOptional) {
+      return resolveOptionalToken(requestConfig);
+    }
+    return resolveToken(requestConfig);
+  }
+
+  get provider() {
+    return getProvider(this.config.provider);
+  }
+
+  /**
+   * Override options for the rest of the session, e.g. a picked model.
+   */
+  setSessionOptions(options: IOptions) {
+    this.#sessionOptions = mergeDefault(this.#sessionOptions, options);
+  }
+
+  /**
+   * Models offered by the endpoint of `requestConfig`, cached per session.
+   */
+  async listModels(
+    requestConfig: IEngineConfig = this.config,
+    refresh = false,
+  ): Promise<string[]> {
+    const provider = getProvider(requestConfig.provider);
+    const token = await this.#resolveToken(requestConfig);
+    const { url, headers } = provider.buildModelsRequest(requestConfig, token);
+    const cacheKey = `${provider.name} ${url}`;
+    if (!refresh && modelCache.has(cacheKey)) return modelCache.get(cacheKey)!;
+
+    let resp;
     try {
-      apiKeyParamValue = fs.readFileSync(this.config.tokenPath, 'utf-8');
-    } catch (error) {}
-    if (!apiKeyParamValue) {
-      throw new Error('Missing API key');
+      resp = await axios({
+        method: 'get',
+        url,
+        headers,
+        ...this.#agents(requestConfig),
+        timeout: requestConfig.requestTimeout * 1000,
+      });
+    } catch (error) {
+      throw await this.#toAPIError(error);
+    }
+    const models = provider.parseModels(resp.data).sort();
+    modelCache.set(cacheKey, models);
+    return models;
+  }
+
+  /** Whether any request issued by this engine is still in flight. */
+  get busy() {
+    return this.#handles.size > 0;
+  }
+
+  /** Abort every in-flight request issued by this engine. */
+  abort() {
+    for (const handle of this.#handles) {
+      handle.controller.abort();
+      this.#closeRequest(handle);
     }
+  }
 
-    const elements = apiKeyParamValue.trim().split(',');
-    const apiKey = elements[0].trim();
-    const orgId = elements.length > 1 ? elements[1].trim() : null;
-    return { apiKey, orgId };
+  #openRequest(requestConfig: IEngineConfig, context: IRequestContext) {
+    const handle = requestRegistry.create({
+      task: this.configName,
+      bufnr: context.bufnr,
+      model: requestConfig.model,
+    });
+    this.#handles.add(handle);
+    return handle;
   }
 
-  async #makeRequest(requestConfig: IEngineConfig, data: IAPIOptions) {
-    this.config = requestConfig;
-    const headers = {
-      'Content-Type': 'application/json',
-      ...(this.config.requiresAuth && {
-        Authorization: `Bearer ${this.token.apiKey}`,
-        ...(this.token.orgId && { 'OpenAI-Organization': this.token.orgId }),
-      }),
-    };
-    const body = JSON.stringify(data);
-    const httpAgent = this.config.proxy
-      ? new HttpProxyAgent(this.config.proxy)
+  #closeRequest(handle: IRequestHandle) {
+    requestRegistry.remove(handle);
+    this.#handles.delete(handle);
+  }
+
+  #recordUsage(requestConfig: IEngineConfig, usage?: Partial<IUsage>) {
+    if (!usage || !Object.keys(usage).length) return;
+    const priced = usageTracker.record(this.configName, requestConfig.model, {
+      ...emptyUsage(),
+      ...usage,
+    });
+    addUsage(this.usage, priced);
+  }
+
+  #agents(requestConfig: IEngineConfig) {
+    const httpAgent = requestConfig.proxy
+      ? new HttpProxyAgent(requestConfig.proxy)
       : null;
-    const httpsAgent = this.config.proxy
-      ? new HttpsProxyAgent(this.config.proxy)
+    const httpsAgent = requestConfig.proxy
+      ? new HttpsProxyAgent(requestConfig.proxy)
       : null;
+    return { httpAgent, httpsAgent };
+  }
 
-    if (!this.controller.signal.aborted) this.controller.abort();
-    this.controller = new AbortController();
+  async #toAPIError(error: unknown) {
+    if (!axios.isAxiosError(error) || !error.response) return error;
+    const payload = await this.#readErrorBody(error.response.data);
+    const apiError = createAPIError(payload, error.response.status);
+    apiError.retryAfter = parseRetryAfter(
+      error.response.headers['retry-after'],
+    );
+    return apiError;
+  }
+
+  async #makeRequest(
+    handle: IRequestHandle,
+    requestConfig: IEngineConfig,
+    data: IAPIOptions,
+    trace?: TraceSpan,
+  ): Promise<ICassetteResponse> {
+    const cassette = getCassette();
+    // replays never hit the network, so they need no key either
+    const token =
+      cassette?.mode === 'replay'
+        ? null
+        : await this.#resolveToken(requestConfig);
+    const { url, headers, body } = getProvider(
+      requestConfig.provider,
+    ).buildRequest(requestConfig, data, token);
+    if (cassette?.mode === 'replay') {
+      const replayed = cassette.replay(url, body, handle.controller.signal);
+      trace?.status(replayed.status);
+      return replayed;
+    }
+    const { httpAgent, httpsAgent } = this.#agents(requestConfig);
+
+    // timeouts end this attempt only, leaving the handle to fallbacks
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    handle.controller.signal.addEventListener('abort', onAbort, {
+      once: true,
+    });
     let timeout = setTimeout(() => {
-      this.controller.abort();
-    }, this.config.requestTimeout * 1000);
+      controller.abort();
+    }, requestConfig.requestTimeout * 1000);
 
     let resp;
     try {
       resp = await axios({
         method: 'post',
-        url: this.config.endpointUrl,
-        data: body,
+        url,
+        data: JSON.stringify(body),
         headers,
         httpAgent,
         httpsAgent,
-        signal: this.controller.signal,
-        timeout: this.config.requestTimeout * 1000,
+        signal: controller.signal,
+        timeout: requestConfig.requestTimeout * 1000,
         responseType: data.stream ? 'stream' : 'json',
       });
     } catch (error) {
       console.error('coc-ai request failed:', error);
-      throw error;
+      throw await this.#toAPIError(error);
+    } finally {
+      clearTimeout(timeout);
     }
-    clearTimeout(timeout);
+    trace?.status(resp.status);
     if (resp.status !== 200) {
       window.showErrorMessage(`HTTPError ${resp.status}: ${resp.statusText}`);
     }
+    if (cassette?.mode === 'record') return cassette.record(url, body, resp);
     return resp;
   }
 
   async execute(
     requestConfig: IEngineConfig,
     data: IAPIOptions,
+    context: IRequestContext = {},
   ): Promise<string> {
-    const resp = await this.#makeRequest(requestConfig, data);
-    const choice = resp.data.choices?.[0];
-    if (!choice) return '';
-    if (choice.message?.content) return choice.message.content;
-    return '';
-  }
-
-  #parseLine(line: string) {
-    const parsed = JSON.parse(line);
-    let chunk: IChunk;
-    if (typeof parsed.choices?.[0]?.delta?.reasoning_content === 'string') {
-      chunk = {
-        type: 'reasoning_content',
-        content: parsed.choices[0].delta.reasoning_content,
-      };
-    } else if (typeof parsed.choices[0].delta.content === 'string') {
-      chunk = {
-        type: 'content',
-        content: parsed.choices[0].delta.content,
-      };
-    } else {
-      chunk = { type: 'content', content: '' };
-    }
-    return chunk;
-  }
-
-  async *generate(requestConfig: IEngineConfig, data: IAPIOptions) {
-    const resp = await this.#makeRequest(requestConfig, data);
+    const cacheKey = requestConfig.cacheEnabled
+      ? await this.#cacheKey(requestConfig, data)
+      : undefined;
+    if (cacheKey) {
+      const cached = responseCache.get(cacheKey);
+      if (cached !== undefined) return cached;
+    }
+    const handle = this.#openRequest(requestConfig, context);
+    const candidates = this.#fallbackChain(requestConfig);
+    try {
+      for (let i = 0; ; i++) {
+        const candidate = candidates[i];
+        try {
+          const answer = await this.#executeWith(
+            handle,
+            candidate,
+            this.#candidateData(candidate, i, data),
+          );
+          if (cacheKey && answer) responseCache.set(cacheKey, answer);
+          return answer;
+        } catch (error) {
+          this.#fallBack(handle, candidates, i, error, context);
+        }
+      }
+    } finally {
+      this.#closeRequest(handle);
+    }
+  }
+
+  async #executeWith(
+    handle: IRequestHandle,
+    requestConfig: IEngineConfig,
+    data: IAPIOptions,
+  ) {
+    for (let attempt = 0; ; attempt++) {
+      const trace = startTrace(this.configName, requestConfig, data);
+      try {
+        const resp = await this.#makeRequest(
+          handle,
+          requestConfig,
+          data,
+          trace,
+        );
+        handle.bytesReceived += Buffer.byteLength(JSON.stringify(resp.data));
+        const provider = getProvider(requestConfig.provider);
+        const answer = provider.parseResponse(resp.data);
+        this.#recordUsage(requestConfig, provider.parseUsage(resp.data));
+        trace?.end({ response: answer });
+        return answer;
+      } catch (error) {
+        trace?.end({ error });
+        const retry = await this.#waitForRetry(
+          handle,
+          requestConfig,
+          error,
+          attempt,
+        );
+        if (!retry) throw error;
+      }
+    }
+  }
+
+  /**
+   * Built like the request itself, so credentials and endpoint are part of
+   * the key.
+   */
+  async #cacheKey(requestConfig: IEngineConfig, data: IAPIOptions) {
+    const token = await this.#resolveToken(requestConfig);
+    const request = getProvider(requestConfig.provider).buildRequest(
+      requestConfig,
+      data,
+      token,
+    );
+    return responseCache.key(request);
+  }
+
+  /**
+   * The request config followed by each of its `fallbacks` merged over it.
+   */
+  #fallbackChain(requestConfig: IEngineConfig): IEngineConfig[] {
+    const { fallbacks = [], ...primary } = requestConfig;
+    return [
+      requestConfig,
+      ...fallbacks.map((fallback) => {
+        let base = primary as IEngineConfig;
+        // the key and headers of the primary are not meant for another host
+        if (fallback.endpointUrl || fallback.tokenPath || fallback.provider) {
+          base = { ...base };
+          for (const key of ENDPOINT_BOUND_KEYS) delete base[key];
+        }
+        return this.#normalizeEngineConfig(mergeDefault(base, fallback));
+      }),
+    ];
+  }
+
+  /**
+   * Request data for the candidate at `index`: `data` itself for the primary,
+   * rebuilt with the merged options of a fallback, keeping the messages.
+   */
+  #candidateData(
+    candidate: IEngineConfig,
+    index: number,
+    data: IAPIOptions,
+  ): IAPIOptions {
+    if (index === 0) return data;
+    return {
+      ...this.requestData(candidate, data.messages, !!data.stream),
+      ...(data.tools && { tools: data.tools }),
+    };
+  }
+
+  /**
+   * Switch `handle` to the candidate after `index`, rethrowing `error` if
+   * there is none or the request got aborted.
+   */
+  #fallBack(
+    handle: IRequestHandle,
+    candidates: IEngineConfig[],
+    index: number,
+    error: unknown,
+    context: IRequestContext,
+  ) {
+    const next = candidates[index + 1];
+    if (!next || handle.controller.signal.aborted) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    window.showWarningMessage(
+      `coc-ai: ${candidates[index].model} failed (${reason}), falling back to ${next.model}`,
+    );
+    handle.model = next.model;
+    context.onFallback?.(next);
+  }
+
+  /**
+   * Sleep before the next attempt if `error` is worth retrying.
+   * Resolves false if retries are exhausted, the server asks to wait longer
+   * than `MAX_RETRY_AFTER`, or the request got aborted, also while sleeping.
+   */
+  async #waitForRetry(
+    handle: IRequestHandle,
+    requestConfig: IEngineConfig,
+    error: any,
+    attempt: number,
+  ) {
+    const maxRetries = requestConfig.maxRetries ?? 0;
+    if (attempt >= maxRetries || !isRetryable(error)) return false;
+    if (handle.controller.signal.aborted) return false;
+
+    if (error.retryAfter > MAX_RETRY_AFTER) return false;
+
+    const backoff = (requestConfig.retryBackoff ?? 1) * 2 ** attempt;
+    const delay = Math.ceil(error.retryAfter ?? backoff);
+    window.showWarningMessage(
+      `coc-ai: ${error.message}, retrying in ${delay}s (${attempt + 1}/${maxRetries})`,
+    );
+    await sleep(delay * 1000, handle.controller.signal);
+    return !handle.controller.signal.aborted;
+  }
+
+  async #readErrorBody(data: any) {
+    let text = data;
+    if (data && typeof data[Symbol.asyncIterator] === 'function') {
+      text = '';
+      for await (const value of data) text += value.toString();
+    }
+    if (typeof text !== 'string') return text;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  async *#readEvents(
+    handle: IRequestHandle,
+    requestConfig: IEngineConfig,
+    stream: AsyncIterable<Buffer>,
+  ) {
     const decoder = new TextDecoder('utf-8');
-    let buffer = '';
-
-    for await (const value of resp.data) {
-      if (this.controller.signal.aborted) break;
-      const data = decoder.decode(value, { stream: true });
-      const lines = data.split('\n').filter((line) => line.trim() !== '');
-      for (let line of lines) {
-        line = line.startsWith('data: ') ? line.slice('data: '.length) : line;
-        if (line === '[DONE]') continue;
+    const parser =
+      getProvider(requestConfig.provider).streamFormat === 'ndjson'
+        ? new NDJSONParser()
+        : new SSEParser();
+    for await (const value of stream) {
+      if (handle.controller.signal.aborted) return;
+      handle.bytesReceived += value.length;
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode());
+    yield* parser.flush();
+  }
+
+  /**
+   * Stream the answer chunk by chunk. Failures are retried, then handed over
+   * to `fallbacks`, as long as no token has been yielded yet.
+   */
+  async *generate(
+    requestConfig: IEngineConfig,
+    data: IAPIOptions,
+    context: IRequestContext = {},
+  ) {
+    const handle = this.#openRequest(requestConfig, context);
+    const candidates = this.#fallbackChain(requestConfig);
+    try {
+      for (let i = 0; ; i++) {
+        const candidate = candidates[i];
+        let started = false;
         try {
-          if (buffer) {
-            line = buffer + line;
-            buffer = '';
+          const chunks = this.#generateWith(
+            handle,
+            candidate,
+            this.#candidateData(candidate, i, data),
+          );
+          for await (const chunk of chunks) {
+            started = true;
+            yield chunk;
           }
-          yield this.#parseLine(line);
+          return;
         } catch (error) {
-          if (buffer) {
-            window.showErrorMessage(`Error during decoding:${error}`);
-          } else {
-            buffer += line; // in case json row scattered across two chunks
+          if (started) throw error;
+          this.#fallBack(handle, candidates, i, error, context);
+        }
+      }
+    } finally {
+      this.#closeRequest(handle);
+    }
+  }
+
+  async *#generateWith(
+    handle: IRequestHandle,
+    requestConfig: IEngineConfig,
+    data: IAPIOptions,
+  ) {
+    const provider = getProvider(requestConfig.provider);
+    const usage: Partial<IUsage> = {};
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        const trace = startTrace(this.configName, requestConfig, data);
+        try {
+          const resp = await this.#makeRequest(
+            handle,
+            requestConfig,
+            data,
+            trace,
+          );
+          const events = this.#readEvents(handle, requestConfig, resp.data);
+          for await (const event of events) {
+            const result = provider.parseEvent(event);
+            const { chunk, finishReason, done } = result;
+            Object.assign(usage, result.usage);
+            if (chunk?.content || chunk?.toolCalls?.length) {
+              started = true;
+              trace?.chunk(chunk);
+              yield chunk;
+            }
+            if (finishReason === 'length') {
+              window.showWarningMessage(
+                'coc-ai: response truncated, maxTokens reached.',
+              );
+            }
+            if (done) {
+              // read the rest so a recording cassette sees the stream end
+              for await (const _ of events);
+              break;
+            }
           }
+          return;
+        } catch (error) {
+          trace?.end({ error });
+          const retry =
+            !started &&
+            (await this.#waitForRetry(handle, requestConfig, error, attempt));
+          if (!retry) throw error;
+        } finally {
+          trace?.end(); // also when the consumer stops early
         }
       }
+    } finally {
+      this.#recordUsage(requestConfig, usage);
     }
   }
 }
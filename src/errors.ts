@@ -0,0 +1,103 @@
+import { KnownError } from './utils';
+
+export class APIError extends KnownError {
+  /** Seconds to wait before retrying, from the `Retry-After` header. */
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    public status?: number,
+    public code?: string,
+  ) {
+    super(message);
+    this.name = 'APIError';
+  }
+}
+
+export class RateLimitError extends APIError {
+  name = 'RateLimitError';
+}
+
+export class ContextLengthError extends APIError {
+  name = 'ContextLengthError';
+}
+
+export class ContentFilterError extends APIError {
+  name = 'ContentFilterError';
+}
+
+/**
+ * Build a typed error out of an error payload of any supported provider:
+ *   openai: `{ error: { message, type, code } }`
+ *   anthropic: `{ type: 'error', error: { type, message } }`
+ *   ollama: `{ error: '...' }`
+ */
+export function createAPIError(payload: any, status?: number): APIError {
+  const error = payload?.error ?? payload;
+  let message: string;
+  if (typeof error === 'string') {
+    message = error;
+  } else if (typeof error?.message === 'string') {
+    message = error.message;
+  } else {
+    message = JSON.stringify(error) ?? `HTTP ${status}`;
+  }
+  const code: string | undefined = error?.code ?? error?.type;
+
+  if (
+    status === 429 ||
+    /rate_limit|insufficient_quota|overloaded/.test(code ?? '')
+  ) {
+    return new RateLimitError(`Rate limited: ${message}`, status, code);
+  }
+  if (
+    code === 'context_length_exceeded' ||
+    /context length|context window|maximum context|prompt is too long/i.test(
+      message,
+    )
+  ) {
+    return new ContextLengthError(
+      `Context length exceeded: ${message}`,
+      status,
+      code,
+    );
+  }
+  if (code === 'content_filter' || code === 'content_policy_violation') {
+    return new ContentFilterError(
+      `Blocked by content filter: ${message}`,
+      status,
+      code,
+    );
+  }
+  const prefix = status ? `HTTPError ${status}` : 'API error';
+  return new APIError(`${prefix}: ${message}`, status, code);
+}
+
+const RETRYABLE_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+export function isRetryable(error: any): boolean {
+  if (error instanceof RateLimitError) return true;
+  if (error instanceof APIError) {
+    return !!error.status && (error.status === 429 || error.status >= 500);
+  }
+  return RETRYABLE_CODES.includes(error?.code);
+}
+
+/**
+ * `Retry-After` is either delay-seconds or an HTTP-date.
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
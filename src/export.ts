@@ -0,0 +1,209 @@
+import * as toml from '@iarna/toml';
+
+import { IMessage, IOptions } from './interface';
+import { formatToolCall } from './tools';
+import { CHAT_TABLE, KnownError } from './utils';
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'aichat';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: '.md',
+  json: '.json',
+  html: '.html',
+  aichat: '.aichat',
+};
+
+const ROLE_NAMES: Record<string, string> = {
+  system: 'System',
+  user: 'User',
+  include: 'Include',
+  assistant: 'Assistant',
+  tool: 'Tool',
+};
+
+export function toMarkdown(messages: IMessage[]) {
+  let mdContent = '';
+  for (const msg of messages) {
+    if (msg.role === 'system' || msg.role === 'include') continue;
+    // tool calls and their output would read back as answers
+    if (msg.role === 'tool' || !msg.content) continue;
+
+    const roleName = msg.role === 'user' ? 'User' : 'Assistant';
+    mdContent += `## ${roleName}\n\n${msg.content}\n\n`;
+  }
+  return mdContent;
+}
+
+/** Messages of a Markdown export, `## User` and `## Assistant` sections. */
+export function fromMarkdown(text: string): IMessage[] {
+  const messages: IMessage[] = [];
+  let fence = '';
+  for (const line of text.split(/\r?\n/)) {
+    const heading = !fence && line.match(/^## (System|User|Assistant)\s*$/);
+    if (heading) {
+      const role = heading[1].toLowerCase() as IMessage['role'];
+      messages.push({ role, content: '' });
+      continue;
+    }
+    // headings inside code blocks of an answer are content
+    const marker = line.match(/^\s*(```+|~~~+)/)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) {
+      fence = fence ? '' : marker;
+    }
+    if (messages.length) messages[messages.length - 1].content += line + '\n';
+  }
+  if (!messages.length) {
+    throw new KnownError('No `## User` or `## Assistant` sections found');
+  }
+  return messages.map((m) => ({ ...m, content: m.content.trim() }));
+}
+
+/**
+ * OpenAI-compatible request body, the `[chat-options]` of the chat are kept
+ * in `chat_options` to import it back.
+ */
+export function toJSON(messages: IMessage[], options: IOptions) {
+  const body = {
+    ...(options.model && { model: options.model }),
+    messages: messages.map(({ images, ...m }) => {
+      const role = m.role === 'include' ? 'user' : m.role;
+      if (!images?.length) return { ...m, role };
+      return {
+        ...m,
+        role,
+        content: [{ type: 'text', text: m.content }, ...images],
+      };
+    }),
+    chat_options: options,
+  };
+  return JSON.stringify(body, null, 2) + '\n';
+}
+
+export function fromJSON(text: string) {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    throw new KnownError(`Invalid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(data?.messages)) {
+    throw new KnownError('No `messages` array found');
+  }
+  const options: IOptions =
+    data.chat_options ?? (data.model ? { model: data.model } : {});
+  let skipped = 0;
+  const messages = data.messages.map((m: any): IMessage => {
+    const role = m.role === 'developer' ? 'system' : m.role;
+    if (!(role in ROLE_NAMES) || role === 'include') {
+      throw new KnownError(`Unknown role: ${m.role}`);
+    }
+    let content = m.content ?? '';
+    if (Array.isArray(content)) {
+      // images have no path to go back to
+      skipped += content.filter((part) => part.type !== 'text').length;
+      content = content
+        .filter((part) => part.type === 'text')
+        .map((part) => part.text)
+        .join('\n');
+    }
+    return {
+      role,
+      content,
+      ...(m.tool_calls && { tool_calls: m.tool_calls }),
+      ...(m.tool_call_id && { tool_call_id: m.tool_call_id }),
+    };
+  });
+  return { messages: messages as IMessage[], options, skipped };
+}
+
+/** Chat buffer lines holding `messages`, ready for the next question. */
+export function chatLines(messages: IMessage[], options: IOptions) {
+  const lines: string[] = [];
+  if (Object.keys(options).length) {
+    const header = toml.stringify({ [CHAT_TABLE]: options as any });
+    lines.push(...header.trimEnd().split('\n'), '');
+  }
+  const block = (header: string, content: string) =>
+    lines.push(header, '', ...content.split('\n'), '');
+  for (const message of messages) {
+    if (message.role === 'assistant') {
+      if (message.content) block('<<< assistant', message.content);
+      if (message.tool_calls?.length) {
+        block(
+          '<<< tool_call',
+          message.tool_calls.map(formatToolCall).join('\n'),
+        );
+      }
+    } else if (message.role === 'tool') {
+      block(`>>> tool ${message.tool_call_id}`, message.content);
+    } else {
+      block(`>>> ${message.role}`, message.content);
+    }
+  }
+  if (messages[messages.length - 1]?.role !== 'user') {
+    lines.push('>>> user', '', '');
+  }
+  return lines;
+}
+
+function escapeHTML(text: string) {
+  return text.replace(
+    /[&<>"]/g,
+    (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!,
+  );
+}
+
+/** A single HTML page, styles and images inline. */
+export function toHTML(title: string, messages: IMessage[], options: IOptions) {
+  const sections = messages.map((m) => {
+    const parts = [`<pre>${escapeHTML(m.content)}</pre>`];
+    for (const image of m.images ?? []) {
+      parts.push(`<img src="${escapeHTML(image.image_url.url)}" alt="">`);
+    }
+    if (m.tool_calls?.length) {
+      const calls = m.tool_calls.map(formatToolCall).join('\n');
+      parts.push(`<pre class="tool_call">${escapeHTML(calls)}</pre>`);
+    }
+    const name =
+      m.role === 'tool' ? `Tool ${m.tool_call_id}` : ROLE_NAMES[m.role];
+    // context the reader rarely needs starts collapsed
+    if (m.role === 'system' || m.role === 'include' || m.role === 'tool') {
+      return (
+        `<details class="${m.role}"><summary>${escapeHTML(name)}</summary>` +
+        `${parts.join('')}</details>`
+      );
+    }
+    return (
+      `<section class="${m.role}"><h2>${name}</h2>` +
+      `${parts.join('')}</section>`
+    );
+  });
+  if (Object.keys(options).length) {
+    const table = toml.stringify(options as any);
+    sections.unshift(
+      '<details class="options"><summary>Chat options</summary>' +
+        `<pre>${escapeHTML(table)}</pre></details>`,
+    );
+  }
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+body { max-width: 50em; margin: 2em auto; padding: 0 1em; font-family: sans-serif; }
+section, details { margin: 1em 0; padding: 0.5em 1em; border-radius: 6px; background: #f6f8fa; }
+section.user { background: #eef4ff; }
+h2 { font-size: 1em; margin: 0.5em 0; }
+summary { cursor: pointer; color: #57606a; }
+pre { white-space: pre-wrap; word-wrap: break-word; font-family: monospace; }
+img { max-width: 100%; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,155 @@
+import { BasicList, ListContext, ListItem, workspace, window } from 'coc.nvim';
+import * as toml from '@iarna/toml';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const HISTORY_TABLE = 'chat-history';
+
+export interface IHistoryMeta {
+  title: string;
+  created: Date;
+  updated: Date;
+}
+
+export interface IHistoryEntry extends IHistoryMeta {
+  file: string;
+}
+
+/**
+ * Chats saved as `.aichat` files, so a saved chat is resumed by opening it.
+ */
+export class ChatHistory {
+  #storagePath?: string;
+
+  /** Set up by `activate`, the default directory lives in its storage. */
+  init(storagePath: string) {
+    this.#storagePath = storagePath;
+  }
+
+  get enabled() {
+    const config = workspace.getConfiguration('coc-ai.chat');
+    return config.get<boolean>('historyEnabled', true) && !!this.dir;
+  }
+
+  get dir() {
+    const dir = workspace
+      .getConfiguration('coc-ai.chat')
+      .get<string>('historyDir', '');
+    if (dir) return dir.replace(/^~/, os.homedir());
+    return this.#storagePath ? path.join(this.#storagePath, 'history') : '';
+  }
+
+  /** Whether `file` is a saved chat, rather than an `.aichat` of the user. */
+  owns(file: string) {
+    return (
+      !!this.dir &&
+      path.dirname(path.resolve(workspace.cwd, file)) === path.resolve(this.dir)
+    );
+  }
+
+  /**
+   * Write the chat `lines` behind a `[chat-history]` table, into `file` or a
+   * new one named after the creation time. Returns the file written.
+   */
+  save(lines: string[], meta: IHistoryMeta, file?: string) {
+    if (!file) {
+      const stamp = meta.created.toISOString().replace(/[:.]/g, '-');
+      file = path.join(this.dir, `${stamp}.aichat`);
+    }
+    const header = toml
+      .stringify({ [HISTORY_TABLE]: meta as any })
+      .trimEnd()
+      .split('\n');
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, [...header, '', ...lines].join('\n') + '\n');
+    return file;
+  }
+
+  read(file: string): IHistoryEntry {
+    const content = fs.readFileSync(file, 'utf-8');
+    const lines = content.split(/\r?\n/);
+    const end = lines.findIndex((line) => line.startsWith('>>>'));
+    let meta: Partial<IHistoryMeta> = {};
+    try {
+      const header = lines.slice(0, end === -1 ? lines.length : end);
+      meta = (toml.parse(header.join('\n'))[HISTORY_TABLE] ??
+        {}) as Partial<IHistoryMeta>;
+    } catch {} // a hand edited header
+    const stat = fs.statSync(file);
+    // untitled chats are named after their first question
+    const firstQuestion =
+      end === -1 ? '' : lines.slice(end + 1).find((line) => line.trim());
+    return {
+      file,
+      title: meta.title || firstQuestion || path.basename(file),
+      created: new Date(meta.created ?? stat.birthtime),
+      updated: stat.mtime,
+    };
+  }
+
+  /** Saved chats, most recently updated first. */
+  list(): IHistoryEntry[] {
+    if (!this.dir || !fs.existsSync(this.dir)) return [];
+    return fs
+      .readdirSync(this.dir)
+      .filter((name) => name.endsWith('.aichat'))
+      .map((name) => this.read(path.join(this.dir, name)))
+      .sort((a, b) => b.updated.getTime() - a.updated.getTime());
+  }
+}
+
+export const chatHistory = new ChatHistory();
+
+function formatDate(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * `:CocList aihistory`, saved chats with preview, delete and resume.
+ */
+export class HistoryList extends BasicList {
+  name = 'aihistory';
+  description = 'saved coc-ai chats';
+  defaultAction = 'resume';
+
+  constructor(resume: (file: string) => Promise<void>) {
+    super();
+    this.addAction('resume', async (item) => {
+      await resume(item.data.file);
+    });
+    this.addAction(
+      'preview',
+      async (item, context) => {
+        const lines = fs.readFileSync(item.data.file, 'utf-8').split('\n');
+        await this.preview(
+          { bufname: path.basename(item.data.file), lines, filetype: 'aichat' },
+          context,
+        );
+      },
+      { persist: true, reload: false },
+    );
+    this.addMultipleAction(
+      'delete',
+      async (items) => {
+        for (const item of items) fs.unlinkSync(item.data.file);
+        window.showInformationMessage(
+          `coc-ai: deleted ${items.length} chat(s)`,
+        );
+      },
+      { persist: true, reload: true },
+    );
+  }
+
+  async loadItems(_context: ListContext): Promise<ListItem[]> {
+    return chatHistory.list().map((entry) => ({
+      label: `${formatDate(entry.updated)}  ${entry.title}`,
+      filterText: entry.title,
+      data: { file: entry.file },
+    }));
+  }
+}
@@ -0,0 +1,293 @@
+import { Uri, window, workspace } from 'coc.nvim';
+import { execFile } from 'child_process';
+import { glob, isDynamicPattern } from 'fast-glob';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+
+import { IImagePart, IMessage } from './interface';
+
+const { nvim } = workspace;
+const execFileAsync = promisify(execFile);
+
+const IGNORED = ['**/node_modules/**', '**/.git/**'];
+/** Symbols included for a `symbol:` item, exact name matches first. */
+const MAX_SYMBOLS = 3;
+/** Lines shown below a symbol whose range is only its name. */
+const SYMBOL_CONTEXT = 20;
+
+/** Image types accepted by the providers, told apart by their magic bytes. */
+const IMAGE_TYPES: [string, (head: Buffer) => boolean][] = [
+  ['image/png', (head) => head.readUInt32BE(0) === 0x89504e47],
+  ['image/jpeg', (head) => head.readUIntBE(0, 3) === 0xffd8ff],
+  ['image/gif', (head) => head.toString('latin1', 0, 4) === 'GIF8'],
+  [
+    'image/webp',
+    (head) =>
+      head.toString('latin1', 0, 4) === 'RIFF' &&
+      head.toString('latin1', 8, 12) === 'WEBP',
+  ],
+];
+
+interface ISection {
+  label: string;
+  text: string;
+}
+
+interface IBudget {
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  used: number;
+}
+
+function relative(file: string) {
+  const rel = path.relative(workspace.root, file);
+  return rel.startsWith('..') ? file : rel;
+}
+
+async function git(args: string[]) {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: workspace.root,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/** Fails if `file`, symlinks followed, is not inside the workspace. */
+async function checkInWorkspace(file: string) {
+  const root = await fs.promises.realpath(workspace.root);
+  const real = await fs.promises.realpath(file);
+  if (path.relative(root, real).startsWith('..')) {
+    throw new Error('outside of the workspace');
+  }
+}
+
+async function readText(file: string, workspaceOnly = false) {
+  if (workspaceOnly) await checkInWorkspace(file);
+  const stat = await fs.promises.stat(file);
+  if (stat.isDirectory()) throw new Error('is a directory, use a glob');
+  const content = await fs.promises.readFile(file);
+  if (content.subarray(0, 8000).includes(0)) throw new Error('binary file');
+  return content.toString('utf-8');
+}
+
+function sliceLines(text: string, start: number, end: number) {
+  const lines = text.split(/\r?\n/);
+  if (start < 1 || start > lines.length || end < start) {
+    throw new Error(`no lines ${start}-${end}, it has ${lines.length}`);
+  }
+  return lines.slice(start - 1, end).join('\n');
+}
+
+/** Files of the workspace git does not ignore, undefined outside a repo. */
+async function unignoredFiles() {
+  try {
+    const out = await git([
+      'ls-files',
+      '--cached',
+      '--others',
+      '--exclude-standard',
+      '-z',
+    ]);
+    return new Set(out.split('\0').filter((f) => f));
+  } catch {
+    return undefined;
+  }
+}
+
+async function expandGlob(
+  pattern: string,
+  workspaceOnly: boolean,
+): Promise<ISection[]> {
+  const files = await glob(pattern, {
+    cwd: workspace.root,
+    absolute: true,
+    dot: true,
+    onlyFiles: true,
+    ignore: IGNORED,
+  });
+  if (!files.length) throw new Error('no files match');
+  const tracked = await unignoredFiles();
+  const sections: ISection[] = [];
+  for (const file of files.sort()) {
+    const rel = path.relative(workspace.root, file);
+    if (tracked && !rel.startsWith('..') && !tracked.has(rel)) continue;
+    sections.push({
+      label: relative(file),
+      text: await readText(file, workspaceOnly),
+    });
+  }
+  return sections;
+}
+
+async function readBuffer(name: string): Promise<ISection[]> {
+  const bufnr: number = await nvim.call('bufnr', [name]);
+  if (bufnr === -1) throw new Error('no such buffer');
+  const lines: string[] = await nvim.call('getbufline', [bufnr, 1, '$']);
+  return [{ label: `buffer:${name}`, text: lines.join('\n') }];
+}
+
+async function gitDiff(staged: boolean): Promise<ISection[]> {
+  const out = await git(staged ? ['diff', '--staged'] : ['diff']);
+  const label = staged ? 'git:staged' : 'git:diff';
+  return [{ label, text: out.trim() || '(no changes)' }];
+}
+
+async function findSymbol(name: string): Promise<ISection[]> {
+  const symbols: any[] =
+    (await nvim.call('CocAction', ['getWorkspaceSymbols', name])) ?? [];
+  const exact = symbols.filter((s) => s.name === name);
+  const found = (exact.length ? exact : symbols)
+    .filter((s) => s.location?.range)
+    .slice(0, MAX_SYMBOLS);
+  if (!found.length) throw new Error('no such symbol');
+  const sections: ISection[] = [];
+  for (const symbol of found) {
+    const { uri, range } = symbol.location;
+    const file = Uri.parse(uri).fsPath;
+    const start = range.start.line + 1;
+    let end = range.end.line + 1;
+    if (end === start) end += SYMBOL_CONTEXT;
+    const text = await readText(file);
+    const last = Math.min(end, text.split(/\r?\n/).length);
+    sections.push({
+      label: `symbol:${symbol.name} ${relative(file)}:${start}-${last}`,
+      text: sliceLines(text, start, last),
+    });
+  }
+  return sections;
+}
+
+async function readItem(
+  item: string,
+  workspaceOnly: boolean,
+): Promise<ISection[]> {
+  const gitMatch = item.match(/^git:(diff|staged)$/);
+  if (gitMatch) return gitDiff(gitMatch[1] === 'staged');
+  if (item.startsWith('buffer:')) return readBuffer(item.slice(7));
+  if (item.startsWith('symbol:')) return findSymbol(item.slice(7));
+  if (isDynamicPattern(item)) return expandGlob(item, workspaceOnly);
+
+  const file = path.resolve(workspace.root, item);
+  const rangeMatch = item.match(/^(.+):(\d+)(?:-(\d+))?$/);
+  if (rangeMatch && !fs.existsSync(file)) {
+    const start = parseInt(rangeMatch[2]);
+    const end = rangeMatch[3] ? parseInt(rangeMatch[3]) : start;
+    const text = await readText(
+      path.resolve(workspace.root, rangeMatch[1]),
+      workspaceOnly,
+    );
+    return [{ label: item, text: sliceLines(text, start, end) }];
+  }
+  return [{ label: relative(file), text: await readText(file, workspaceOnly) }];
+}
+
+/** `text` under a `==> label <==` header, cut to what the budget allows. */
+function section(label: string, text: string, budget: IBudget) {
+  const header = `==> ${label} <==\n`;
+  const left = budget.maxTotalBytes - budget.used;
+  if (left <= 0) {
+    return header + `[skipped: ${budget.maxTotalBytes} bytes included already]`;
+  }
+  const bytes = Buffer.byteLength(text);
+  const limit = Math.min(budget.maxFileBytes, left);
+  if (bytes <= limit) {
+    budget.used += bytes;
+    return header + text;
+  }
+  budget.used += limit;
+  const cut = Buffer.from(text).subarray(0, limit).toString('utf-8');
+  return header + cut + `\n[truncated at ${limit} of ${bytes} bytes]`;
+}
+
+/**
+ * Read the sources listed in an include message into its content, one per
+ * line: a path or glob, `path:10-40`, `buffer:<name>`, `git:diff`,
+ * `git:staged` or `symbol:<name>`. A source that cannot be read leaves an
+ * error note in its place. The role is kept, so the context can be trimmed by
+ * kind, it is sent as `user`. With `workspaceOnly`, as for the includes of
+ * the project file, files outside of the workspace are not read.
+ */
+export async function resolveIncludeMessage(
+  message: IMessage,
+  workspaceOnly = false,
+) {
+  const config = workspace.getConfiguration('coc-ai.include');
+  const budget: IBudget = {
+    maxFileBytes: config.get<number>('maxFileBytes', 100000),
+    maxTotalBytes: config.get<number>('maxTotalBytes', 500000),
+    used: 0,
+  };
+  const items = message.content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line);
+  const parts: string[] = [];
+  for (const item of items) {
+    try {
+      for (const { label, text } of await readItem(item, workspaceOnly)) {
+        parts.push(section(label, text, budget));
+      }
+    } catch (error: any) {
+      const reason = error.stderr?.trim() || error.message;
+      parts.push(`==> ${item} <==\n[error: ${reason}]`);
+    }
+  }
+  message.content = parts.join('\n\n');
+  return message;
+}
+
+async function readImage(file: string, maxBytes: number): Promise<IImagePart> {
+  const stat = await fs.promises.stat(file);
+  if (stat.size > maxBytes) {
+    throw new Error(`${stat.size} bytes, over the ${maxBytes} allowed`);
+  }
+  const content = await fs.promises.readFile(file);
+  const mime =
+    content.length >= 12
+      ? IMAGE_TYPES.find(([, test]) => test(content))?.[0]
+      : undefined;
+  if (!mime) throw new Error('not a PNG, JPEG, GIF or WebP image');
+  const url = `data:${mime};base64,${content.toString('base64')}`;
+  return { type: 'image_url', image_url: { url } };
+}
+
+/**
+ * Read the images listed in an `>>> image` block, paths or globs relative to
+ * the workspace root. Images that cannot be sent are left out with a warning.
+ */
+export async function resolveImages(sources: string[]) {
+  const maxBytes = workspace
+    .getConfiguration('coc-ai.image')
+    .get<number>('maxBytes', 5 * 1024 * 1024);
+  const images: IImagePart[] = [];
+  for (const source of sources) {
+    try {
+      const files = isDynamicPattern(source)
+        ? (
+            await glob(source, {
+              cwd: workspace.root,
+              absolute: true,
+              onlyFiles: true,
+              ignore: IGNORED,
+            })
+          ).sort()
+        : [path.resolve(workspace.root, source)];
+      if (!files.length) throw new Error('no files match');
+      for (const file of files) {
+        try {
+          images.push(await readImage(file, maxBytes));
+        } catch (error: any) {
+          window.showWarningMessage(
+            `coc-ai: image ${relative(file)} skipped: ${error.message}`,
+          );
+        }
+      }
+    } catch (error: any) {
+      window.showWarningMessage(
+        `coc-ai: image ${source} skipped: ${error.message}`,
+      );
+    }
+  }
+  return images;
+}
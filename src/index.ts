@@ -1,10 +1,26 @@
 import path from 'path';
-import { commands, ExtensionContext, workspace, languages } from 'coc.nvim';
+import {
+  commands,
+  ExtensionContext,
+  workspace,
+  languages,
+  listManager,
+  window,
+} from 'coc.nvim';
 
-import { AIChats, hideChat } from './aichat';
+import { AIChats, hideChat, openChatFile } from './aichat';
 import { AIEdit } from './aiedit';
 import { getRoles } from './roles';
 import { AICompletionProvider } from './completion';
+import { requestRegistry } from './requests';
+import { formatUsage, usageTracker } from './usage';
+import { TraceLogView } from './tracelog';
+import { responseCache } from './cache';
+import { chatHistory, HistoryList } from './history';
+import { IEditRange } from './interface';
+import { chatLines, EXPORT_EXTENSIONS, ExportFormat } from './export';
+import { AICompare } from './compare';
+import { setBufferLines } from './utils';
 
 const config = workspace.getConfiguration('coc-ai');
 const { nvim } = workspace;
@@ -18,10 +34,14 @@ export async function activate(context: ExtensionContext) {
   nvim.command(`execute 'noa set rtp+='.fnameescape('${directory}')`, true);
   nvim.command(`source ${directory}/plugin/*.vim`, true);
   console.debug('coc-ai loaded!');
+  responseCache.init(context.storagePath);
+  chatHistory.init(context.storagePath);
 
   const aichats = new AIChats();
   const aiedit = new AIEdit();
+  const aicompare = new AICompare();
   const aicomplete = new AIEdit('complete');
+  const traceLog = new TraceLogView();
   context.subscriptions.push(
     languages.registerCompletionItemProvider(
       'coc-ai',
@@ -31,23 +51,32 @@ export async function activate(context: ExtensionContext) {
       [],
       100000,
     ),
+    listManager.registerList(new HistoryList(openChatFile)),
     commands.registerCommand(
       'coc-ai.chat',
-      async (selection: string, rawPrompt: string) => {
+      async (selection: string, rawPrompt: string, range?: IEditRange) => {
+        const source = range && {
+          bufnr: (await nvim.call('bufnr', '%')) as number,
+          range,
+        };
         const bufList = (await nvim.call('tabpagebuflist')) as number[];
         const bufnr = bufList.filter((x) => aichats.includes(x)).pop();
         const aichat = await aichats.getChat({
           bufnr,
           init: bufnr ? false : true,
         });
-        await aichat.run(selection, rawPrompt);
+        await aichat.run(selection, rawPrompt, source);
       },
     ),
     commands.registerCommand(
       'coc-ai.newChat',
-      async (selection: string, rawPrompt: string) => {
+      async (selection: string, rawPrompt: string, range?: IEditRange) => {
+        const source = range && {
+          bufnr: (await nvim.call('bufnr', '%')) as number,
+          range,
+        };
         const aichat = await aichats.newChat();
-        await aichat.run(selection, rawPrompt);
+        await aichat.run(selection, rawPrompt, source);
       },
     ),
     commands.registerCommand(
@@ -76,12 +105,97 @@ export async function activate(context: ExtensionContext) {
       const chat = await aichats.newChat(name);
       await chat.initializeIfEmpty();
     }),
-    commands.registerCommand('coc-ai.chatExport', async () => {
+    commands.registerCommand('coc-ai.chatExport', async (format?: string) => {
+      format ||= 'markdown';
+      if (!(format in EXPORT_EXTENSIONS)) {
+        window.showWarningMessage(`coc-ai: unknown export format ${format}`);
+        return;
+      }
       const bufnr = (await nvim.call('bufnr', '%')) as number;
       const chat = await aichats.getChat({ bufnr });
       if (chat) {
-        await chat.export();
+        await chat.export(format as ExportFormat);
+      }
+    }),
+    commands.registerCommand('coc-ai.chatImport', async (file: string) => {
+      try {
+        await aichats.importChat(file);
+      } catch (error: any) {
+        window.showErrorMessage(`coc-ai: import failed: ${error.message}`);
+      }
+    }),
+    commands.registerCommand('coc-ai.regenerate', async () => {
+      const bufnr = (await nvim.call('bufnr', '%')) as number;
+      const chat = aichats.includes(bufnr)
+        ? await aichats.getChat({ bufnr })
+        : await aichats.getChat({ init: true });
+      await chat.regenerate();
+    }),
+    commands.registerCommand('coc-ai.cycleBranch', async (step?: number) => {
+      const bufnr = (await nvim.call('bufnr', '%')) as number;
+      if (!aichats.includes(bufnr)) {
+        window.showWarningMessage('coc-ai: not in a chat buffer');
+        return;
+      }
+      const chat = await aichats.getChat({ bufnr });
+      await chat.cycleBranch(Number(step ?? 1));
+    }),
+    commands.registerCommand('coc-ai.resendFrom', async (fork?: number) => {
+      const bufnr = (await nvim.call('bufnr', '%')) as number;
+      if (!aichats.includes(bufnr)) {
+        window.showWarningMessage('coc-ai: not in a chat buffer');
+        return;
+      }
+      const chat = await aichats.getChat({ bufnr });
+      await aichats.resendFrom(chat, !!fork);
+    }),
+    commands.registerCommand('coc-ai.compact', async () => {
+      const bufnr = (await nvim.call('bufnr', '%')) as number;
+      if (!aichats.includes(bufnr)) {
+        window.showWarningMessage('coc-ai: not in a chat buffer');
+        return;
+      }
+      const chat = await aichats.getChat({ bufnr });
+      await chat.compact();
+    }),
+    commands.registerCommand('coc-ai.applyCodeBlock', async () => {
+      const bufnr = (await nvim.call('bufnr', '%')) as number;
+      if (!aichats.includes(bufnr)) {
+        window.showWarningMessage('coc-ai: not in a chat buffer');
+        return;
       }
+      const chat = await aichats.getChat({ bufnr });
+      const source = chat.source;
+      if (!source || !workspace.getDocument(source.bufnr)) {
+        window.showWarningMessage(
+          'coc-ai: no selection to apply to, ask about one with :AIChat',
+        );
+        return;
+      }
+      const lines = await chat.codeBlockAtCursor();
+      if (!lines) {
+        window.showWarningMessage(
+          'coc-ai: cursor is not in a code block of an answer',
+        );
+        return;
+      }
+      await aiedit.preview(lines, source);
+    }),
+    commands.registerCommand(
+      'coc-ai.compare',
+      async (selection: string, rawPrompt: string) => {
+        await aicompare.run(selection, rawPrompt);
+      },
+    ),
+    commands.registerCommand('coc-ai.comparePromote', async () => {
+      const promoted = await aicompare.promote();
+      if (!promoted) return;
+      const chat = await aichats.newChat();
+      await setBufferLines(
+        chat.bufnr,
+        chatLines(promoted.messages, promoted.options),
+      );
+      await chat.syncLines();
     }),
     commands.registerCommand('coc-ai.show', async () => {
       await aichats.getChat({ init: true });
@@ -92,6 +206,98 @@ export async function activate(context: ExtensionContext) {
         .then((chat) => chat.abort())
         .catch((e) => console.error(e));
     }),
+    commands.registerCommand('coc-ai.stopRequest', async (id?: string) => {
+      if (id !== undefined) {
+        if (!requestRegistry.abort(Number(id))) {
+          window.showWarningMessage(`coc-ai: no active request #${id}`);
+        }
+        return;
+      }
+      const handles = requestRegistry.list();
+      if (!handles.length) {
+        window.showInformationMessage('coc-ai: no active requests');
+        return;
+      }
+      const idx = await window.showMenuPicker(
+        handles.map((h) => requestRegistry.describe(h)),
+        'Stop AI request',
+      );
+      if (idx !== -1) requestRegistry.abort(handles[idx].id);
+    }),
+    commands.registerCommand('coc-ai.stopAll', () => {
+      const count = requestRegistry.abortAll();
+      window.showInformationMessage(`coc-ai: stopped ${count} request(s)`);
+    }),
+    commands.registerCommand('coc-ai.usage', async () => {
+      const lines = usageTracker.summary();
+      const bufnr = (await nvim.call('bufnr', '%')) as number;
+      if (aichats.includes(bufnr)) {
+        const chat = await aichats.getChat({ bufnr });
+        lines.unshift(formatUsage('this chat', chat.engine.usage));
+      }
+      await window.echoLines(lines);
+    }),
+    commands.registerCommand(
+      'coc-ai.pickModel',
+      async (task?: string, refresh?: number) => {
+        const bufnr = (await nvim.call('bufnr', '%')) as number;
+        const chat =
+          !task && aichats.includes(bufnr)
+            ? await aichats.getChat({ bufnr })
+            : undefined;
+        if (!chat && !task) {
+          const tasks = ['edit', 'complete'];
+          const idx = await window.showMenuPicker(tasks, 'Pick model for');
+          if (idx === -1) return;
+          task = tasks[idx];
+        }
+        const target = chat ?? (task === 'complete' ? aicomplete : aiedit);
+        const requestConfig = chat
+          ? await chat.chatConfig()
+          : target.engine.config;
+
+        let models: string[];
+        try {
+          models = await target.engine.listModels(requestConfig, !!refresh);
+        } catch (error: any) {
+          window.showErrorMessage(
+            `coc-ai: cannot list models: ${error.message ?? error}`,
+          );
+          return;
+        }
+        if (!models.length) {
+          window.showWarningMessage(
+            `coc-ai: no models listed by ${requestConfig.endpointUrl}`,
+          );
+          return;
+        }
+        const idx = await window.showMenuPicker(
+          models.map((m) => (m === requestConfig.model ? `${m} *` : m)),
+          `Model for ${chat ? 'this chat' : task}`,
+        );
+        if (idx === -1) return;
+        if (chat) {
+          await chat.setChatOption('model', models[idx]);
+        } else {
+          target.engine.setSessionOptions({ model: models[idx] });
+          window.showInformationMessage(
+            `coc-ai: ${task} uses ${models[idx]} for this session`,
+          );
+        }
+      },
+    ),
+    commands.registerCommand('coc-ai.log', async () => {
+      await traceLog.open();
+    }),
+    commands.registerCommand('coc-ai.logResend', async () => {
+      await traceLog.resend();
+    }),
+    commands.registerCommand('coc-ai.clearCache', () => {
+      const count = responseCache.clear();
+      window.showInformationMessage(
+        `coc-ai: cleared ${count} cached answer(s)`,
+      );
+    }),
     commands.registerCommand('coc-ai.roleComplete', () => {
       return Object.keys(getRoles() ?? {});
     }),
@@ -7,9 +7,55 @@ export interface IRoleConfig {
   'options-tab'?: IOptions; // tab
 }
 
+/**
+ * `.coc-ai.toml` of the project, its options apply to every task, over the
+ * coc settings and under chat and role options.
+ */
+export interface IProjectConfig extends Omit<IRoleConfig, 'prompt'> {
+  /** Appended to the `initialPrompt` of every task. */
+  systemPrompt?: string;
+  /** Sources of a `>>> include` block opening every new chat. */
+  includes?: string[];
+  /** Extra roles, over those of `rolesConfigPath` with the same name. */
+  roles?: Record<string, IRoleConfig>;
+}
+
 export interface IMessage {
-  role: 'system' | 'user' | 'assistant' | 'include';
+  role: 'system' | 'user' | 'assistant' | 'include' | 'tool';
   content: string;
+  tool_calls?: IToolCall[];
+  tool_call_id?: string;
+  /** Attached images, sent along the text by providers that take them. */
+  images?: IImagePart[];
+}
+
+/** OpenAI style image content part, holding a base64 `data:` url. */
+export interface IImagePart {
+  type: 'image_url';
+  image_url: { url: string };
+}
+
+export interface IToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/** One piece of a streamed tool call, merged by `index`. */
+export interface IToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface ITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
 }
 
 export interface IToken {
@@ -23,20 +69,70 @@ export interface IAPIOptions {
   max_tokens?: number;
   temperature?: number;
   stream?: boolean;
+  top_p?: number;
+  stop?: string | string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  response_format?: Record<string, any>;
+  reasoning_effort?: string;
+  tools?: ITool[];
+}
+
+/** Sampling and request parameters shared by engine config and options. */
+export interface ISamplingOptions {
+  topP?: number;
+  stop?: string | string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  /** `json_object`, `text` or a full `response_format` table. */
+  responseFormat?: string | Record<string, any>;
+  reasoningEffort?: string;
+  /** Deep-merged into the request body as is. */
+  extraBody?: Record<string, any>;
 }
 
-export interface IEngineConfig {
+export type TaskName = 'chat' | 'edit' | 'complete' | 'tab';
+
+export type ProviderName = 'openai' | 'anthropic' | 'ollama';
+
+/** What to do with a conversation exceeding the context window. */
+export type ContextStrategy = 'drop' | 'summarize' | 'capIncludes' | 'off';
+
+export interface IEngineConfig extends ISamplingOptions {
+  provider: ProviderName;
   model: string;
   endpointUrl: string;
   proxy: string;
   maxTokens: number;
   temperature: number;
   requestTimeout: number;
+  maxRetries: number;
+  retryBackoff: number;
   requiresAuth: boolean;
   initialPrompt: string;
   tokenPath: string;
+  apiKeyEnv?: string;
+  apiKeyCommand?: string;
+  apiKeyCacheTTL?: number;
+  headers?: Record<string, string>;
+  authHeaderName?: string;
+  authScheme?: string;
+  queryParams?: Record<string, string>;
+  /** Tried in order when a request fails before its first token. */
+  fallbacks?: IOptions[];
+  /** Context window in tokens, 0 to look it up in `coc-ai.contextLimits`. */
+  contextLimit?: number;
+  contextStrategy?: ContextStrategy;
+  /** Reuse non-stream answers, see `coc-ai.cache.*`. */
+  cacheEnabled?: boolean;
   rolesConfigPath: string;
 
+  // ollama
+  numCtx?: number;
+  keepAlive?: string;
+
   // chat
   autoScroll?: boolean;
   codeSyntaxEnabled?: boolean;
@@ -45,6 +141,9 @@ export interface IEngineConfig {
   openChatCommand?: string;
   scratchBufferKeepOpen?: boolean;
   autoTitle?: boolean;
+  toolsEnabled?: boolean;
+  historyEnabled?: boolean;
+  historyDir?: string;
 
   // tab
   enabled?: boolean;
@@ -52,15 +151,31 @@ export interface IEngineConfig {
   includeOpenBuffers?: boolean;
 }
 
-export interface IOptions {
+export interface IOptions extends ISamplingOptions {
+  provider?: ProviderName;
   model?: string;
   endpointUrl?: string;
   requiresAuth?: boolean;
   tokenPath?: string;
+  apiKeyEnv?: string;
+  apiKeyCommand?: string;
+  apiKeyCacheTTL?: number;
+  headers?: Record<string, string>;
+  authHeaderName?: string;
+  authScheme?: string;
+  queryParams?: Record<string, string>;
+  fallbacks?: IOptions[];
   proxy?: string;
   maxTokens?: number;
   temperature?: number;
+  maxRetries?: number;
+  retryBackoff?: number;
   initialPrompt?: string;
+  numCtx?: number;
+  keepAlive?: string;
+  toolsEnabled?: boolean;
+  contextLimit?: number;
+  contextStrategy?: ContextStrategy;
 }
 
 export interface IChatPreset {
@@ -75,7 +190,37 @@ export interface IEditRange {
   end: [number, number];
 }
 
+/** Buffer and range a chat question was asked about. */
+export interface IEditSource {
+  bufnr: number;
+  range: IEditRange;
+}
+
 export interface IChunk {
-  type: 'content' | 'reasoning_content';
+  type: 'content' | 'reasoning_content' | 'tool_call';
   content: string;
+  toolCalls?: IToolCallDelta[];
+}
+
+export interface IRequestContext {
+  /** Buffer the request works for, shown in the request list. */
+  bufnr?: number;
+  /** Called when a fallback takes over a failed request. */
+  onFallback?: (requestConfig: IEngineConfig) => void;
+}
+
+export interface IUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Part of `completionTokens` spent on reasoning. */
+  reasoningTokens: number;
+  /** Estimated cost, only if the model is listed in `coc-ai.prices`. */
+  cost?: number;
+}
+
+export interface IModelPrice {
+  /** Price per million prompt tokens. */
+  prompt: number;
+  /** Price per million completion tokens. */
+  completion: number;
 }
@@ -0,0 +1,123 @@
+import { window, workspace } from 'coc.nvim';
+import * as toml from '@iarna/toml';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { IOptions, IProjectConfig, IRoleConfig } from './interface';
+
+export const PROJECT_FILE = '.coc-ai.toml';
+
+/**
+ * Options a checked out repository must not set: they run commands, or send
+ * the API key to a host of its choosing.
+ */
+const UNTRUSTED_KEYS = [
+  'apiKeyCommand',
+  'apiKeyEnv',
+  'tokenPath',
+  'endpointUrl',
+  'headers',
+  'queryParams',
+  'proxy',
+] as const;
+
+/** Files already warned about, by path and message. */
+const warned = new Set<string>();
+
+function warnOnce(message: string) {
+  if (warned.has(message)) return;
+  warned.add(message);
+  window.showWarningMessage(message);
+}
+
+/** Remove the untrusted keys of `options` and its fallbacks, in place. */
+function stripOptions(options: IOptions | undefined, stripped: Set<string>) {
+  if (typeof options !== 'object') return;
+  for (const key of UNTRUSTED_KEYS) {
+    if (key in options) {
+      delete options[key];
+      stripped.add(key);
+    }
+  }
+  if (Array.isArray(options.fallbacks)) {
+    for (const fallback of options.fallbacks) stripOptions(fallback, stripped);
+  }
+}
+
+function stripRole(role: IRoleConfig, stripped: Set<string>) {
+  if (typeof role !== 'object') return;
+  stripOptions(role.options, stripped);
+  for (const task of ['chat', 'complete', 'edit', 'tab'] as const) {
+    stripOptions(role[`options-${task}`], stripped);
+  }
+}
+
+/**
+ * Whether an include item of the project file stays in the workspace:
+ * `git:` items and relative paths or globs without `..`. Buffers and symbols
+ * may be anywhere on disk.
+ */
+function isWorkspaceInclude(item: string) {
+  if (typeof item !== 'string') return false;
+  if (/^git:/.test(item)) return true;
+  if (/^(buffer|symbol):/.test(item)) return false;
+  return (
+    !path.isAbsolute(item) && !item.startsWith('~') && !item.includes('..')
+  );
+}
+
+/** The nearest `.coc-ai.toml`, walking up from the workspace root. */
+export function findProjectFile() {
+  let dir = path.resolve(workspace.root);
+  while (true) {
+    const file = path.join(dir, PROJECT_FILE);
+    if (fs.existsSync(file)) return file;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Settings of the project file, read again every time so edits apply to the
+ * next request. Undefined without a file, or with a broken one. Credential
+ * and endpoint options are dropped, those stay in the coc settings, and so
+ * are includes outside of the workspace.
+ */
+export function getProjectConfig(): IProjectConfig | undefined {
+  const file = findProjectFile();
+  if (!file) return undefined;
+  let config: IProjectConfig;
+  try {
+    config = toml.parse(fs.readFileSync(file, 'utf-8')) as IProjectConfig;
+  } catch (error) {
+    warnOnce(`coc-ai: ignoring ${file}: ${error}`);
+    return undefined;
+  }
+  const stripped = new Set<string>();
+  stripRole(config, stripped);
+  for (const role of Object.values(config.roles ?? {})) {
+    stripRole(role, stripped);
+  }
+  if (Array.isArray(config.includes)) {
+    const rejected = config.includes.filter(
+      (item) => !isWorkspaceInclude(item),
+    );
+    if (rejected.length) {
+      config.includes = config.includes.filter(isWorkspaceInclude);
+      warnOnce(
+        `coc-ai: ignoring includes ${rejected.join(', ')} of ${file}, ` +
+          'outside of the workspace',
+      );
+    }
+  } else {
+    delete config.includes;
+  }
+  if (stripped.size) {
+    warnOnce(
+      `coc-ai: ignoring ${[...stripped].join(', ')} of ${file}, ` +
+        'set them in coc-settings.json',
+    );
+  }
+  return config;
+}
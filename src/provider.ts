@@ -0,0 +1,431 @@
+import {
+  IAPIOptions,
+  IChunk,
+  IEngineConfig,
+  IImagePart,
+  IToken,
+  IUsage,
+  ProviderName,
+} from './interface';
+import { KnownError, mergeDefault } from './utils';
+import { ContentFilterError, createAPIError } from './errors';
+import { IStreamEvent } from './stream';
+
+export const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+/** Media type and base64 data of an image part. */
+function imageData(part: IImagePart) {
+  const [, mediaType, data] = part.image_url.url.match(
+    /^data:([^;]+);base64,(.*)$/,
+  )!;
+  return { mediaType, data };
+}
+
+export interface IStreamResult {
+  chunk?: IChunk;
+  /** Normalized reason the model stopped, e.g. `stop` or `length`. */
+  finishReason?: string;
+  /** Token counts, possibly partial, to be merged over earlier ones. */
+  usage?: Partial<IUsage>;
+  done?: boolean;
+}
+
+export interface IRequestSpec {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+/**
+ * Translates between coc-ai's OpenAI-shaped request data and the wire format
+ * of a specific API.
+ */
+export abstract class Provider {
+  abstract name: ProviderName;
+  /** Framing of streamed responses. */
+  streamFormat: 'sse' | 'ndjson' = 'sse';
+  /** Whether only a token meant for it is sent, none otherwise. */
+  authOptional = false;
+  /** Defaults of `authHeaderName` and `authScheme`. */
+  authHeaderName = 'Authorization';
+  authScheme = 'Bearer';
+
+  /**
+   * Assemble url, headers and body. Custom `headers` win over the generated
+   * ones, `queryParams` are appended to `endpointUrl`.
+   */
+  buildRequest(
+    config: IEngineConfig,
+    data: IAPIOptions,
+    token: IToken | null,
+  ): IRequestSpec {
+    const headers = this.#headers(config, token);
+    const url = this.#withQuery(config, config.endpointUrl);
+    let body = this.buildBody(config, data);
+    if (config.extraBody) body = mergeDefault(body, config.extraBody);
+    return { url, headers, body };
+  }
+
+  /** GET request listing the models available at the endpoint. */
+  buildModelsRequest(config: IEngineConfig, token: IToken | null) {
+    const url = this.#withQuery(config, this.modelsUrl(config.endpointUrl));
+    return { url, headers: this.#headers(config, token) };
+  }
+
+  #headers(config: IEngineConfig, token: IToken | null) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.buildHeaders(config, token),
+      ...(token && this.authHeaders(config, token)),
+      ...config.headers,
+    };
+    return headers;
+  }
+
+  #withQuery(config: IEngineConfig, endpoint: string) {
+    const url = new URL(endpoint);
+    for (const [key, value] of Object.entries(config.queryParams ?? {})) {
+      url.searchParams.set(key, String(value));
+    }
+    return url.toString();
+  }
+
+  /** Derive the model listing url from the chat `endpointUrl`. */
+  protected modelsUrl(endpointUrl: string) {
+    return endpointUrl.replace(/\/chat\/completions\/?$/, '/models');
+  }
+
+  /** Model ids out of a model listing response. */
+  parseModels(data: any): string[] {
+    return (data.data ?? []).map((model: any) => model.id);
+  }
+
+  protected authHeaders(config: IEngineConfig, token: IToken) {
+    const name = config.authHeaderName || this.authHeaderName;
+    const scheme = config.authScheme ?? this.authScheme;
+    return { [name]: scheme ? `${scheme} ${token.apiKey}` : token.apiKey };
+  }
+
+  /** Provider specific headers besides authentication. */
+  protected buildHeaders(
+    _config: IEngineConfig,
+    _token: IToken | null,
+  ): Record<string, string> {
+    return {};
+  }
+
+  protected abstract buildBody(
+    config: IEngineConfig,
+    data: IAPIOptions,
+  ): Record<string, any>;
+
+  /** Extract the answer from a non-stream response body. */
+  abstract parseResponse(data: any): string;
+
+  /** Extract token counts from a response body or stream payload. */
+  abstract parseUsage(data: any): Partial<IUsage> | undefined;
+
+  /**
+   * Parse one event of a streamed response, throwing typed errors for
+   * error payloads.
+   */
+  abstract parseEvent(event: IStreamEvent): IStreamResult;
+
+  protected parseJSON(data: string) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      throw new KnownError(`Malformed stream payload: ${data.slice(0, 80)}`);
+    }
+  }
+}
+
+export class OpenAIProvider extends Provider {
+  name: ProviderName = 'openai';
+
+  protected buildHeaders(_config: IEngineConfig, token: IToken | null) {
+    const headers: Record<string, string> = {};
+    if (token?.orgId) headers['OpenAI-Organization'] = token.orgId;
+    return headers;
+  }
+
+  protected buildBody(_config: IEngineConfig, data: IAPIOptions) {
+    // messages with images are sent as content parts
+    const messages = data.messages.map(({ images, ...m }) =>
+      images?.length
+        ? {
+            ...m,
+            content: [
+              // a question made only of images has no text part
+              ...(m.content ? [{ type: 'text', text: m.content }] : []),
+              ...images,
+            ],
+          }
+        : m,
+    );
+    return {
+      ...data,
+      messages,
+      ...(data.stream && { stream_options: { include_usage: true } }),
+    };
+  }
+
+  parseResponse(data: any): string {
+    if (data.error) throw createAPIError(data);
+    const choice = data.choices?.[0];
+    if (!choice) return '';
+    if (choice.finish_reason === 'content_filter') {
+      throw new ContentFilterError('Blocked by content filter');
+    }
+    if (choice.message?.content) return choice.message.content;
+    return '';
+  }
+
+  parseUsage(data: any): Partial<IUsage> | undefined {
+    const usage = data.usage;
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+    };
+  }
+
+  parseEvent(event: IStreamEvent): IStreamResult {
+    if (event.data === '[DONE]') return { done: true };
+    const parsed = this.parseJSON(event.data);
+    if (parsed.error) throw createAPIError(parsed);
+    const choice = parsed.choices?.[0];
+    const finishReason: string | undefined = choice?.finish_reason ?? undefined;
+    if (finishReason === 'content_filter') {
+      throw new ContentFilterError('Blocked by content filter');
+    }
+    const delta = choice?.delta;
+    let chunk: IChunk | undefined;
+    if (typeof delta?.reasoning_content === 'string') {
+      chunk = { type: 'reasoning_content', content: delta.reasoning_content };
+    } else if (Array.isArray(delta?.tool_calls)) {
+      chunk = {
+        type: 'tool_call',
+        content: '',
+        toolCalls: delta.tool_calls.map((call: any) => ({
+          index: call.index ?? 0,
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        })),
+      };
+    } else if (typeof delta?.content === 'string') {
+      chunk = { type: 'content', content: delta.content };
+    }
+    return { chunk, finishReason, usage: this.parseUsage(parsed) };
+  }
+}
+
+/**
+ * Anthropic Messages API, see https://docs.anthropic.com/en/api/messages
+ */
+export class AnthropicProvider extends Provider {
+  name: ProviderName = 'anthropic';
+  authHeaderName = 'x-api-key';
+  authScheme = '';
+
+  protected buildHeaders() {
+    return { 'anthropic-version': ANTHROPIC_VERSION };
+  }
+
+  protected modelsUrl(endpointUrl: string) {
+    return endpointUrl.replace(/\/messages\/?$/, '/models');
+  }
+
+  protected buildBody(_config: IEngineConfig, data: IAPIOptions) {
+    // system prompts live in a top-level field instead of the message list
+    const system = data.messages
+      .filter((m) => m.role === 'system' && m.content)
+      .map((m) => m.content)
+      .join('\n\n');
+    const messages = data.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({
+        role: m.role === 'assistant' ? 'assistant' : 'user',
+        content: m.images?.length
+          ? [
+              ...m.images.map((part) => {
+                const { mediaType, data } = imageData(part);
+                return {
+                  type: 'image',
+                  source: { type: 'base64', media_type: mediaType, data },
+                };
+              }),
+              ...(m.content ? [{ type: 'text', text: m.content }] : []),
+            ]
+          : m.content,
+      }));
+    const body: Record<string, any> = {
+      model: data.model,
+      messages,
+      max_tokens: data.max_tokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+      ...(system && { system }),
+      ...(data.temperature !== undefined && { temperature: data.temperature }),
+      ...(data.top_p !== undefined && { top_p: data.top_p }),
+      ...(data.stop !== undefined && {
+        stop_sequences: Array.isArray(data.stop) ? data.stop : [data.stop],
+      }),
+      ...(data.stream !== undefined && { stream: data.stream }),
+    };
+    return body;
+  }
+
+  parseResponse(data: any): string {
+    if (data.type === 'error') throw createAPIError(data);
+    if (data.stop_reason === 'refusal') {
+      throw new ContentFilterError('Blocked by content filter');
+    }
+    if (!Array.isArray(data.content)) return '';
+    return data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+
+  parseUsage(data: any): Partial<IUsage> | undefined {
+    const usage = data.usage;
+    if (!usage) return undefined;
+    return {
+      ...(usage.input_tokens !== undefined && {
+        promptTokens: usage.input_tokens,
+      }),
+      ...(usage.output_tokens !== undefined && {
+        completionTokens: usage.output_tokens,
+      }),
+    };
+  }
+
+  parseEvent(event: IStreamEvent): IStreamResult {
+    const parsed = this.parseJSON(event.data);
+    switch (parsed.type) {
+      case 'error':
+        throw createAPIError(parsed);
+      case 'message_start':
+        return { usage: this.parseUsage(parsed.message ?? {}) };
+      case 'content_block_delta': {
+        const delta = parsed.delta;
+        if (delta?.type === 'thinking_delta') {
+          return {
+            chunk: { type: 'reasoning_content', content: delta.thinking },
+          };
+        } else if (delta?.type === 'text_delta') {
+          return { chunk: { type: 'content', content: delta.text } };
+        }
+        return {};
+      }
+      case 'message_delta': {
+        const stopReason = parsed.delta?.stop_reason;
+        if (stopReason === 'refusal') {
+          throw new ContentFilterError('Blocked by content filter');
+        }
+        const usage = this.parseUsage(parsed);
+        if (!stopReason) return { usage };
+        return {
+          finishReason: stopReason === 'max_tokens' ? 'length' : 'stop',
+          usage,
+        };
+      }
+      case 'message_stop':
+        return { done: true };
+    }
+    return {};
+  }
+}
+
+/**
+ * Ollama native chat API, see https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+export class OllamaProvider extends Provider {
+  name: ProviderName = 'ollama';
+  streamFormat: 'sse' | 'ndjson' = 'ndjson';
+  authOptional = true;
+
+  protected modelsUrl(endpointUrl: string) {
+    return endpointUrl.replace(/\/api\/chat\/?$/, '/api/tags');
+  }
+
+  parseModels(data: any): string[] {
+    return (data.models ?? []).map((model: any) => model.name);
+  }
+
+  protected buildBody(config: IEngineConfig, data: IAPIOptions) {
+    const options: Record<string, any> = {
+      ...(data.temperature !== undefined && { temperature: data.temperature }),
+      ...(data.max_tokens && { num_predict: data.max_tokens }),
+      ...(config.numCtx && { num_ctx: config.numCtx }),
+      ...(data.top_p !== undefined && { top_p: data.top_p }),
+      ...(data.stop !== undefined && { stop: data.stop }),
+      ...(data.seed !== undefined && { seed: data.seed }),
+      ...(data.presence_penalty !== undefined && {
+        presence_penalty: data.presence_penalty,
+      }),
+      ...(data.frequency_penalty !== undefined && {
+        frequency_penalty: data.frequency_penalty,
+      }),
+    };
+    const body: Record<string, any> = {
+      model: data.model,
+      messages: data.messages.map(({ images, ...m }) =>
+        images?.length
+          ? { ...m, images: images.map((part) => imageData(part).data) }
+          : m,
+      ),
+      stream: data.stream ?? false,
+      ...(Object.keys(options).length && { options }),
+      ...(config.keepAlive && { keep_alive: config.keepAlive }),
+      ...(data.response_format?.type === 'json_object' && { format: 'json' }),
+    };
+    return body;
+  }
+
+  parseResponse(data: any): string {
+    if (data.error) throw createAPIError(data);
+    return data.message?.content ?? '';
+  }
+
+  parseUsage(data: any): Partial<IUsage> | undefined {
+    if (data.eval_count === undefined) return undefined;
+    return {
+      promptTokens: data.prompt_eval_count ?? 0,
+      completionTokens: data.eval_count,
+    };
+  }
+
+  parseEvent(event: IStreamEvent): IStreamResult {
+    const parsed = this.parseJSON(event.data);
+    if (parsed.error) throw createAPIError(parsed);
+    const message = parsed.message;
+    let chunk: IChunk | undefined;
+    if (typeof message?.thinking === 'string' && message.thinking) {
+      chunk = { type: 'reasoning_content', content: message.thinking };
+    } else if (typeof message?.content === 'string') {
+      chunk = { type: 'content', content: message.content };
+    }
+    if (!parsed.done) return { chunk };
+    return {
+      chunk,
+      finishReason: parsed.done_reason ?? 'stop',
+      usage: this.parseUsage(parsed),
+      done: true,
+    };
+  }
+}
+
+const providers: Record<ProviderName, Provider> = {
+  openai: new OpenAIProvider(),
+  anthropic: new AnthropicProvider(),
+  ollama: new OllamaProvider(),
+};
+
+export function getProvider(name?: string): Provider {
+  const provider = providers[(name || 'openai') as ProviderName];
+  if (!provider) throw new KnownError(`Unknown provider: ${name}`);
+  return provider;
+}
@@ -0,0 +1,70 @@
+import { TaskName } from './interface';
+import { AbortController } from './utils';
+
+export interface IRequestHandle {
+  id: number;
+  task: TaskName;
+  bufnr?: number;
+  model: string;
+  startTime: number;
+  bytesReceived: number;
+  controller: AbortController;
+}
+
+/**
+ * Keeps track of every in-flight request across all engines, so they can be
+ * listed and stopped individually.
+ */
+export class RequestRegistry {
+  #handles: Map<number, IRequestHandle> = new Map();
+  #nextId = 1;
+
+  create(info: Pick<IRequestHandle, 'task' | 'bufnr' | 'model'>) {
+    const handle: IRequestHandle = {
+      ...info,
+      id: this.#nextId++,
+      startTime: Date.now(),
+      bytesReceived: 0,
+      controller: new AbortController(),
+    };
+    this.#handles.set(handle.id, handle);
+    return handle;
+  }
+
+  remove(handle: IRequestHandle) {
+    this.#handles.delete(handle.id);
+  }
+
+  get(id: number) {
+    return this.#handles.get(id);
+  }
+
+  /** Active requests, oldest first. */
+  list() {
+    return [...this.#handles.values()];
+  }
+
+  abort(id: number) {
+    const handle = this.#handles.get(id);
+    if (!handle) return false;
+    handle.controller.abort();
+    this.remove(handle);
+    return true;
+  }
+
+  abortAll() {
+    const count = this.#handles.size;
+    for (const handle of this.#handles.values()) handle.controller.abort();
+    this.#handles.clear();
+    return count;
+  }
+
+  describe(handle: IRequestHandle) {
+    const elapsed = ((Date.now() - handle.startTime) / 1000).toFixed(1);
+    const kb = (handle.bytesReceived / 1024).toFixed(1);
+    const buffer = handle.bufnr !== undefined ? ` buf ${handle.bufnr}` : '';
+    return `#${handle.id} ${handle.task}${buffer} ${handle.model} ${elapsed}s ${kb}KB`;
+  }
+}
+
+export const requestRegistry = new RequestRegistry();
@@ -4,22 +4,26 @@ import * as toml from '@iarna/toml';
 
 import { IOptions, IRoleConfig } from './interface';
 import { defaultEngineConfig } from './engine';
+import { getProjectConfig } from './project';
 import { mergeDefault } from './utils';
 
+/**
+ * Roles of `rolesConfigPath`, with those of `.coc-ai.toml` replacing roles
+ * of the same name.
+ */
 export function getRoles() {
   let rolesConfigPath = defaultEngineConfig.rolesConfigPath;
   rolesConfigPath = rolesConfigPath.replace(/^~/, os.homedir());
+  let roles: Record<string, IRoleConfig> | null = null;
   try {
     const content = fs.readFileSync(rolesConfigPath, 'utf-8');
-    const roles: Record<string, IRoleConfig> = toml.parse(content) as Record<
-      string,
-      any
-    >;
-    return roles;
+    roles = toml.parse(content) as Record<string, any>;
   } catch (e) {
     console.error(`Error reading ini file: ${e}`);
-    return null;
   }
+  const projectRoles = getProjectConfig()?.roles;
+  if (projectRoles) roles = { ...roles, ...projectRoles };
+  return roles;
 }
 
 export function parseTaskRole(
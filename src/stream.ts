@@ -0,0 +1,128 @@
+export interface IStreamEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface IStreamParser {
+  /** Consume decoded text, returning every event completed by it. */
+  feed(text: string): IStreamEvent[];
+  /** Dispatch whatever is left once the stream has ended. */
+  flush(): IStreamEvent[];
+}
+
+/**
+ * Splits text into lines across chunk boundaries, accepting LF, CRLF and CR.
+ */
+class LineSplitter {
+  #buffer = '';
+
+  feed(text: string): string[] {
+    this.#buffer += text;
+    const lines: string[] = [];
+    let start = 0;
+    for (let i = 0; i < this.#buffer.length; i++) {
+      const ch = this.#buffer[i];
+      if (ch !== '\r' && ch !== '\n') continue;
+      // a trailing CR might be the first half of a CRLF split across chunks
+      if (ch === '\r' && i === this.#buffer.length - 1) break;
+      lines.push(this.#buffer.slice(start, i));
+      if (ch === '\r' && this.#buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    this.#buffer = this.#buffer.slice(start);
+    return lines;
+  }
+
+  flush(): string[] {
+    const rest = this.#buffer.replace(/\r$/, '');
+    this.#buffer = '';
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Incremental parser for server-sent events,
+ * see https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+export class SSEParser implements IStreamParser {
+  #lines = new LineSplitter();
+  #event = '';
+  #data: string[] = [];
+  #id?: string;
+
+  feed(text: string): IStreamEvent[] {
+    return this.#process(this.#lines.feed(text));
+  }
+
+  flush(): IStreamEvent[] {
+    const events = this.#process(this.#lines.flush());
+    const last = this.#dispatch();
+    if (last) events.push(last);
+    return events;
+  }
+
+  #process(lines: string[]) {
+    const events: IStreamEvent[] = [];
+    for (const line of lines) {
+      if (line === '') {
+        const event = this.#dispatch();
+        if (event) events.push(event);
+        continue;
+      }
+      if (line.startsWith(':')) continue; // comment / keep-alive
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+      switch (field) {
+        case 'event':
+          this.#event = value;
+          break;
+        case 'data':
+          this.#data.push(value);
+          break;
+        case 'id':
+          this.#id = value;
+          break;
+      }
+    }
+    return events;
+  }
+
+  #dispatch(): IStreamEvent | null {
+    if (!this.#data.length) {
+      this.#event = '';
+      return null;
+    }
+    const event: IStreamEvent = {
+      event: this.#event || 'message',
+      data: this.#data.join('\n'),
+      ...(this.#id !== undefined && { id: this.#id }),
+    };
+    this.#event = '';
+    this.#data = [];
+    return event;
+  }
+}
+
+/**
+ * Parser for newline-delimited JSON, each non-empty line being one event.
+ */
+export class NDJSONParser implements IStreamParser {
+  #lines = new LineSplitter();
+
+  feed(text: string): IStreamEvent[] {
+    return this.#toEvents(this.#lines.feed(text));
+  }
+
+  flush(): IStreamEvent[] {
+    return this.#toEvents(this.#lines.flush());
+  }
+
+  #toEvents(lines: string[]) {
+    return lines
+      .filter((line) => line.trim() !== '')
+      .map((line) => ({ event: 'message', data: line }));
+  }
+}
@@ -0,0 +1,276 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'fast-glob';
+import { window, workspace } from 'coc.nvim';
+
+import { ITool, IToolCall, IToolCallDelta } from './interface';
+
+const { nvim } = workspace;
+
+/** Tool results are cut beyond this, they are sent back on every turn. */
+const MAX_OUTPUT = 20000;
+const MAX_MATCHES = 200;
+const MAX_GREP_FILE_SIZE = 1024 * 1024;
+const IGNORED = ['**/node_modules/**', '**/.git/**'];
+
+type ToolHandler = (args: Record<string, any>) => Promise<string>;
+
+interface ILocalTool {
+  definition: ITool;
+  handler: ToolHandler;
+}
+
+function isInside(root: string, file: string) {
+  const rel = path.relative(root, file);
+  return !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * `p` resolved against the workspace root, refused if it leads out of the
+ * workspace, symlinks followed.
+ */
+async function resolvePath(p: string) {
+  if (typeof p !== 'string' || !p) throw new Error('`path` is required');
+  const file = path.resolve(workspace.root, p);
+  if (!isInside(workspace.root, file) || !(await isReallyInside(file))) {
+    throw new Error(`${p} is outside of the workspace`);
+  }
+  return file;
+}
+
+async function isReallyInside(file: string) {
+  let real: string;
+  try {
+    real = await fs.promises.realpath(file);
+  } catch {
+    return true; // missing, nothing to read
+  }
+  return isInside(await fs.promises.realpath(workspace.root), real);
+}
+
+function truncate(output: string) {
+  if (output.length <= MAX_OUTPUT) return output;
+  return output.slice(0, MAX_OUTPUT) + `\n... truncated at ${MAX_OUTPUT} chars`;
+}
+
+async function readFile(args: Record<string, any>) {
+  const file = await resolvePath(args.path);
+  const content = await fs.promises.readFile(file, 'utf-8');
+  if (!args.start_line && !args.end_line) return content;
+  const lines = content.split(/\r?\n/);
+  const start = Math.max(1, args.start_line ?? 1);
+  const end = Math.min(lines.length, args.end_line ?? lines.length);
+  return lines.slice(start - 1, end).join('\n');
+}
+
+async function listDirectory(args: Record<string, any>) {
+  const dir = await resolvePath(args.path ?? '.');
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  return entries
+    .map((e) => (e.isDirectory() ? `${e.name}/` : e.name))
+    .sort()
+    .join('\n');
+}
+
+async function grepWorkspace(args: Record<string, any>) {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(args.pattern, args.ignore_case ? 'i' : '');
+  } catch (error: any) {
+    throw new Error(`Invalid pattern: ${error.message}`);
+  }
+  const pattern = args.glob || '**/*';
+  if (typeof pattern !== 'string' || /^[/~]|\.\./.test(pattern)) {
+    throw new Error('`glob` has to stay inside the workspace');
+  }
+  const files = await glob(pattern, {
+    cwd: workspace.root,
+    ignore: IGNORED,
+    onlyFiles: true,
+    dot: true,
+  });
+  const matches: string[] = [];
+  for (const file of files.sort()) {
+    const fullPath = path.join(workspace.root, file);
+    if (!(await isReallyInside(fullPath))) continue;
+    const stat = await fs.promises.stat(fullPath);
+    if (stat.size > MAX_GREP_FILE_SIZE) continue;
+    const content = await fs.promises.readFile(fullPath, 'utf-8');
+    if (content.includes('\0')) continue; // binary
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i])) continue;
+      matches.push(`${file}:${i + 1}: ${lines[i]}`);
+      if (matches.length >= MAX_MATCHES) {
+        matches.push(`... stopped after ${MAX_MATCHES} matches`);
+        return matches.join('\n');
+      }
+    }
+  }
+  return matches.length ? matches.join('\n') : 'No matches.';
+}
+
+async function getDiagnostics(args: Record<string, any>) {
+  const list: any[] = await nvim.call('CocAction', ['diagnosticList']);
+  const file = args.path ? await resolvePath(args.path) : undefined;
+  const lines = list
+    .filter((d) => !file || path.resolve(d.file) === file)
+    .map(
+      (d) =>
+        `${path.relative(workspace.root, d.file)}:${d.lnum}:${d.col}: ` +
+        `${d.severity} ${d.message}`,
+    );
+  return lines.length ? lines.join('\n') : 'No diagnostics.';
+}
+
+const localTools: Record<string, ILocalTool> = {
+  read_file: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'read_file',
+        description:
+          'Read a text file of the workspace, optionally only a line range.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Relative to the root.' },
+            start_line: { type: 'integer', description: '1-based.' },
+            end_line: { type: 'integer', description: 'Inclusive.' },
+          },
+          required: ['path'],
+        },
+      },
+    },
+    handler: readFile,
+  },
+  list_directory: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'list_directory',
+        description: 'List a directory of the workspace, dirs end with `/`.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Defaults to the root.' },
+          },
+        },
+      },
+    },
+    handler: listDirectory,
+  },
+  grep_workspace: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'grep_workspace',
+        description:
+          'Search workspace files line by line with a JavaScript regex, ' +
+          'printing `file:line: text` for every match.',
+        parameters: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string' },
+            glob: {
+              type: 'string',
+              description: 'Files to search, defaults to `**/*`.',
+            },
+            ignore_case: { type: 'boolean' },
+          },
+          required: ['pattern'],
+        },
+      },
+    },
+    handler: grepWorkspace,
+  },
+  get_diagnostics: {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'get_diagnostics',
+        description:
+          'Get the language server diagnostics of a file, or of every ' +
+          'open buffer when no path is given.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Relative to the root.' },
+          },
+        },
+      },
+    },
+    handler: getDiagnostics,
+  },
+};
+
+export const TOOLS: ITool[] = Object.values(localTools).map(
+  (t) => t.definition,
+);
+
+/**
+ * Merge streamed tool call pieces into `calls`, arguments arrive as string
+ * fragments of one JSON document.
+ */
+export function mergeToolCallDeltas(
+  calls: IToolCall[],
+  deltas: IToolCallDelta[],
+) {
+  for (const delta of deltas) {
+    const call = (calls[delta.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+    if (delta.id) call.id = delta.id;
+    if (delta.name) call.function.name += delta.name;
+    if (delta.arguments) call.function.arguments += delta.arguments;
+  }
+  return calls;
+}
+
+/** One line of a `<<< tool_call` block. */
+export function formatToolCall(call: IToolCall) {
+  let args: any = call.function.arguments;
+  try {
+    args = JSON.parse(args || '{}');
+  } catch {} // kept verbatim, the model will be told it is malformed
+  return JSON.stringify({ id: call.id, name: call.function.name, args });
+}
+
+export function parseToolCall(line: string): IToolCall {
+  const { id, name, args } = JSON.parse(line);
+  return {
+    id,
+    type: 'function',
+    function: {
+      name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+    },
+  };
+}
+
+/**
+ * Run a tool call after the user confirmed it. Failures and refusals are
+ * returned as the result, so the model can react to them.
+ */
+export async function runToolCall(call: IToolCall): Promise<string> {
+  const { name, arguments: rawArgs } = call.function;
+  const tool = localTools[name];
+  if (!tool) return `Error: unknown tool \`${name}\``;
+  let args: Record<string, any>;
+  try {
+    args = JSON.parse(rawArgs || '{}');
+  } catch {
+    return `Error: arguments are not valid JSON: ${rawArgs}`;
+  }
+  const confirmed = await window.showPrompt(
+    `coc-ai: run ${name} ${JSON.stringify(args)}?`,
+  );
+  if (!confirmed) return 'The user declined to run this tool.';
+  try {
+    return truncate(await tool.handler(args));
+  } catch (error: any) {
+    return `Error: ${error.message ?? error}`;
+  }
+}
@@ -0,0 +1,182 @@
+import { workspace } from 'coc.nvim';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { IAPIOptions, IChunk, IEngineConfig, TaskName } from './interface';
+
+const REDACTED = '<redacted>';
+const SECRET_KEY = /auth|key|token|secret|password|cookie/i;
+/** Streamed content kept per entry, the rest is only counted. */
+const MAX_TRACE_CONTENT = 4000;
+
+export interface ITraceEntry {
+  timestamp: string;
+  task: TaskName;
+  config: IEngineConfig;
+  data: IAPIOptions;
+  /** Milliseconds until the response, or stream, ended. */
+  latency: number;
+  status?: number;
+  response?: string;
+  stream?: {
+    chunks: number;
+    content: string;
+    reasoningChars: number;
+    toolCalls: number;
+  };
+  error?: string;
+}
+
+/** `coc-ai.traceLog` with `~` expanded, empty if tracing is off. */
+export function tracePath() {
+  const p = workspace.getConfiguration('coc-ai').get<string>('traceLog', '');
+  return p.replace(/^~/, os.homedir());
+}
+
+function redactTable(table?: Record<string, string>) {
+  if (!table) return table;
+  return Object.fromEntries(
+    Object.entries(table).map(([k, v]) => [
+      k,
+      SECRET_KEY.test(k) ? REDACTED : v,
+    ]),
+  );
+}
+
+/**
+ * Config without secrets, `headers` and `queryParams` may carry API keys.
+ */
+export function redactConfig(requestConfig: IEngineConfig): IEngineConfig {
+  return {
+    ...requestConfig,
+    headers: redactTable(requestConfig.headers),
+    queryParams: redactTable(requestConfig.queryParams),
+    fallbacks: requestConfig.fallbacks?.map((f) => ({
+      ...f,
+      headers: redactTable(f.headers),
+      queryParams: redactTable(f.queryParams),
+    })),
+  };
+}
+
+/**
+ * Fill redacted values of a logged config back in from `current`, dropping
+ * those it does not know.
+ */
+export function restoreConfig(
+  logged: IEngineConfig,
+  current: IEngineConfig,
+): IEngineConfig {
+  const restore = (table?: Record<string, string>, from?: typeof table) => {
+    if (!table) return table;
+    const entries = Object.entries(table)
+      .map(([k, v]) => [k, v === REDACTED ? from?.[k] : v])
+      .filter(([, v]) => v !== undefined);
+    return Object.fromEntries(entries);
+  };
+  return {
+    ...logged,
+    headers: restore(logged.headers, current.headers),
+    queryParams: restore(logged.queryParams, current.queryParams),
+    fallbacks: undefined, // a re-send targets the logged model only
+  };
+}
+
+/**
+ * One request attempt, written to the trace log once it ends.
+ */
+export class TraceSpan {
+  #start = Date.now();
+  #entry: Partial<ITraceEntry>;
+  #stream?: ITraceEntry['stream'];
+  #ended = false;
+
+  constructor(
+    public file: string,
+    task: TaskName,
+    requestConfig: IEngineConfig,
+    data: IAPIOptions,
+  ) {
+    this.#entry = {
+      timestamp: new Date().toISOString(),
+      task,
+      config: redactConfig(requestConfig),
+      data,
+    };
+  }
+
+  status(status: number) {
+    this.#entry.status = status;
+  }
+
+  chunk(chunk: IChunk) {
+    this.#stream ??= {
+      chunks: 0,
+      content: '',
+      reasoningChars: 0,
+      toolCalls: 0,
+    };
+    this.#stream.chunks++;
+    if (chunk.type === 'reasoning_content') {
+      this.#stream.reasoningChars += chunk.content.length;
+    } else if (chunk.type === 'tool_call') {
+      this.#stream.toolCalls += (chunk.toolCalls ?? []).filter(
+        (c) => c.id,
+      ).length;
+    } else if (this.#stream.content.length < MAX_TRACE_CONTENT) {
+      this.#stream.content += chunk.content;
+    }
+  }
+
+  /** Write the entry, only the first call counts. */
+  end(outcome: { response?: string; error?: unknown } = {}) {
+    if (this.#ended) return;
+    this.#ended = true;
+    const { response, error } = outcome;
+    const entry: Partial<ITraceEntry> = {
+      ...this.#entry,
+      latency: Date.now() - this.#start,
+      ...(response !== undefined && { response }),
+      ...(this.#stream && { stream: this.#stream }),
+    };
+    if (error !== undefined) {
+      entry.status ??= (error as any)?.status;
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (e) {
+      console.error('coc-ai: failed to write trace log:', e);
+    }
+  }
+}
+
+/** A span for one request attempt, undefined if tracing is off. */
+export function startTrace(
+  task: TaskName,
+  requestConfig: IEngineConfig,
+  data: IAPIOptions,
+) {
+  const file = tracePath();
+  if (!file) return undefined;
+  return new TraceSpan(file, task, requestConfig, data);
+}
+
+/** The last `limit` entries of the trace log, newest first. */
+export function readTrace(limit: number): ITraceEntry[] {
+  const file = tracePath();
+  if (!file || !fs.existsSync(file)) return [];
+  const lines = fs
+    .readFileSync(file, 'utf-8')
+    .split('\n')
+    .filter((l) => l);
+  const entries: ITraceEntry[] = [];
+  for (const line of lines.slice(-limit).reverse()) {
+    try {
+      entries.push(JSON.parse(line));
+    } catch {} // e.g. a line cut by a crash
+  }
+  return entries;
+}
@@ -0,0 +1,98 @@
+import { window, workspace } from 'coc.nvim';
+
+import { Engine } from './engine';
+import { ITraceEntry, readTrace, restoreConfig, tracePath } from './trace';
+import { setBufferLines } from './utils';
+
+const { nvim } = workspace;
+
+const LOG_BUFNAME = 'coc-ai-log';
+const RESEND_BUFNAME = 'coc-ai-resend';
+const LOG_LIMIT = 50;
+
+function summarize(entry: ITraceEntry, index: number) {
+  const outcome = entry.error ?? entry.response ?? entry.stream?.content ?? '';
+  const status = entry.status ?? '-';
+  return (
+    `#${index + 1} ${entry.timestamp} ${entry.task} ${entry.config.model} ` +
+    `${status} ${entry.latency}ms ${outcome.replace(/\s+/g, ' ').slice(0, 60)}`
+  );
+}
+
+/**
+ * Opens a scratch buffer, reusing its window if shown already.
+ */
+async function openScratch(name: string) {
+  const winid: number = await nvim.call('bufwinid', [name]);
+  if (winid !== -1) {
+    await nvim.call('win_gotoid', [winid]);
+  } else {
+    await nvim.command(`botright split ${name}`);
+  }
+  await nvim.command('setlocal buftype=nofile bufhidden=wipe noswapfile');
+  return (await nvim.call('bufnr', '%')) as number;
+}
+
+/**
+ * `:AILog`, recent trace entries with their details folded below, each of
+ * which can be sent again.
+ */
+export class TraceLogView {
+  #entries: ITraceEntry[] = [];
+
+  async open() {
+    if (!tracePath()) {
+      window.showWarningMessage('coc-ai: set `coc-ai.traceLog` to trace');
+      return;
+    }
+    this.#entries = readTrace(LOG_LIMIT);
+    const lines = [
+      `" ${tracePath()}, newest first. r: re-send, za: details, q: close`,
+    ];
+    this.#entries.forEach((entry, i) => {
+      lines.push(summarize(entry, i));
+      const details = JSON.stringify(entry, null, 2).split('\n');
+      lines.push(...details.map((line) => '  ' + line));
+    });
+    const bufnr = await openScratch(LOG_BUFNAME);
+    await setBufferLines(bufnr, lines);
+    await nvim.command(
+      'setlocal foldmethod=indent foldlevel=0 nomodified | normal! gg',
+    );
+    await nvim.command(
+      'nnoremap <buffer><silent> r :CocCommand coc-ai.logResend<CR>',
+    );
+    await nvim.command('nnoremap <buffer><silent> q :close<CR>');
+  }
+
+  /**
+   * Send the entry under the cursor again, with the secrets of the current
+   * config, and show the answer in a split.
+   */
+  async resend() {
+    const cursor: number = await nvim.call('line', '.');
+    const above: string[] = await nvim.call('getline', [1, cursor]);
+    const header = above.reverse().find((line) => /^#\d+ /.test(line));
+    const entry = header && this.#entries[parseInt(header.slice(1)) - 1];
+    if (!entry) {
+      window.showWarningMessage('coc-ai: no log entry under the cursor');
+      return;
+    }
+    const engine = new Engine(entry.task);
+    const requestConfig = restoreConfig(entry.config, engine.config);
+    window.showInformationMessage(
+      `coc-ai: re-sending ${header.split(' ')[0]} to ${requestConfig.model}`,
+    );
+    let output: string;
+    try {
+      output = await engine.execute(requestConfig, {
+        ...entry.data,
+        stream: false,
+      });
+    } catch (error) {
+      output = `<<< error\n\n${error instanceof Error ? error.message : error}`;
+    }
+    const bufnr = await openScratch(RESEND_BUFNAME);
+    await setBufferLines(bufnr, output.split(/\r?\n/));
+  }
+}
@@ -0,0 +1,88 @@
+import { workspace } from 'coc.nvim';
+
+import { IModelPrice, IUsage, TaskName } from './interface';
+
+const { nvim } = workspace;
+
+export function emptyUsage(): IUsage {
+  return { promptTokens: 0, completionTokens: 0, reasoningTokens: 0 };
+}
+
+export function addUsage(target: IUsage, usage: IUsage) {
+  target.promptTokens += usage.promptTokens;
+  target.completionTokens += usage.completionTokens;
+  target.reasoningTokens += usage.reasoningTokens;
+  if (usage.cost !== undefined) target.cost = (target.cost ?? 0) + usage.cost;
+  return target;
+}
+
+export function formatUsage(label: string, usage: IUsage) {
+  const total = usage.promptTokens + usage.completionTokens;
+  let line =
+    `${label}: ${total} tokens (prompt ${usage.promptTokens}, ` +
+    `completion ${usage.completionTokens}, reasoning ${usage.reasoningTokens})`;
+  if (usage.cost !== undefined) line += `, ~$${usage.cost.toFixed(4)}`;
+  return line;
+}
+
+/**
+ * Session wide token accounting, published to `g:coc_ai_usage` for
+ * statuslines.
+ */
+export class UsageTracker {
+  session: IUsage = emptyUsage();
+  tasks: Map<TaskName, IUsage> = new Map();
+
+  /**
+   * Price the usage of one request and add it to the session totals.
+   * Returns the priced usage.
+   */
+  record(task: TaskName, model: string, usage: IUsage): IUsage {
+    const cost = this.estimateCost(model, usage);
+    const priced = { ...usage, ...(cost !== undefined && { cost }) };
+    addUsage(this.session, priced);
+    if (!this.tasks.has(task)) this.tasks.set(task, emptyUsage());
+    addUsage(this.tasks.get(task)!, priced);
+    this.#publish();
+    return priced;
+  }
+
+  estimateCost(model: string, usage: IUsage) {
+    const prices = workspace
+      .getConfiguration('coc-ai')
+      .get<Record<string, IModelPrice>>('prices', {});
+    const price = prices[model];
+    if (!price) return undefined;
+    return (
+      (usage.promptTokens * (price.prompt ?? 0) +
+        usage.completionTokens * (price.completion ?? 0)) /
+      1e6
+    );
+  }
+
+  summary() {
+    const lines = [formatUsage('session', this.session)];
+    for (const [task, usage] of this.tasks) {
+      lines.push(formatUsage(`  ${task}`, usage));
+    }
+    return lines;
+  }
+
+  #publish() {
+    const { promptTokens, completionTokens, reasoningTokens, cost } =
+      this.session;
+    nvim.setVar(
+      'coc_ai_usage',
+      {
+        prompt: promptTokens,
+        completion: completionTokens,
+        reasoning: reasoningTokens,
+        total: promptTokens + completionTokens,
+        cost: cost ?? 0,
+      },
+      true,
+    );
+  }
+}
+
+export const usageTracker = new UsageTracker();
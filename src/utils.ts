@@ -1,9 +1,5 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { glob } from 'fast-glob';
 import { workspace, window } from 'coc.nvim';
 import { transferableAbortController } from 'util';
-import { IMessage } from './interface';
 
 const { nvim } = workspace;
 
@@ -33,7 +29,12 @@ export function mergeDefault<T>(defaultConfig: T, updates: Partial<T>): T {
             if (!target[key]) Object.assign(target, { [key]: {} });
             merge(target[key], source[key]);
           } else {
-            if (key.includes('rompt') || source[key] !== '') {
+            // empty prompts and auth schemes are meaningful overrides
+            if (
+              key.includes('rompt') ||
+              key === 'authScheme' ||
+              source[key] !== ''
+            ) {
               target[key] = source[key];
             }
           }
@@ -47,31 +48,16 @@ export function mergeDefault<T>(defaultConfig: T, updates: Partial<T>): T {
   return merge(cleanedConfig, updates);
 }
 
-export function resolveIncludeMessage(message: IMessage) {
-  message.role = 'user';
-  let paths: Array<string | null> = message.content.split('\n');
-  message.content = '';
-  const pwd = workspace.root;
-  for (const i in paths) {
-    if (!paths[i]) continue;
-    let p = path.resolve(paths[i]);
-    if (!path.isAbsolute(p)) {
-      p = path.join(pwd, p);
-    }
-    if (p.includes('**')) {
-      paths[i] = null;
-      paths.push(...glob.sync(p));
-    }
-  }
-  for (const p of paths.filter((p) => p !== null)) {
-    if (fs.lstatSync(p).isDirectory()) continue;
-    try {
-      message.content += `\n\n==> ${p} <==\n` + fs.readFileSync(p, 'utf-8');
-    } catch (error) {
-      message.content += `\n\n==> ${p} <==\nBinary file, cannot display`;
-    }
-  }
-  return message;
+/** Recursively sorted keys, so equal payloads serialize equally. */
+export function sortKeys(value: any): any {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort()
+      .map((k) => [k, sortKeys(value[k])]),
+  );
 }
 
 export function handleCompletionError(error: Error) {
@@ -86,9 +72,16 @@ export function handleCompletionError(error: Error) {
   }
 }
 
-export function sleep(interval: number): Promise<void> {
+/** Resolves after `interval` ms, or as soon as `signal` aborts. */
+export function sleep(interval: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve) => {
-    setTimeout(resolve, interval);
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, interval);
+    signal?.addEventListener('abort', done);
   });
 }
 
@@ -3,7 +3,11 @@ set foldmethod=syntax
 syntax match aichatRole ">>> system"
 syntax match aichatRole ">>> user"
 syntax match aichatRole ">>> include"
+syntax match aichatRole ">>> image"
 syntax match aichatRole "<<< assistant"
+syntax match aichatRole ">>> tool"
+syntax match aichatRole "<<< tool_call"
+syntax match aichatError "<<< error"
 
 syntax region aichatReasonBlock
     \ start="^<think>$"
@@ -11,5 +15,20 @@ syntax region aichatReasonBlock
     \ contains=@NoSpell
     \ fold
 
+syntax region aichatImageBlock
+    \ matchgroup=aichatRole
+    \ start="^>>> image$"
+    \ end="\ze\n\%(>>>\|<<<\)"
+    \ contains=@NoSpell
+
+syntax region aichatHiddenBranch
+    \ start="^<<< assistant (\d\+/\d\+).* \[hidden\]$"
+    \ end="\ze\n\%(<<< assistant (\d\+/\|>>> \%(user\|system\|include\|image\)\)"
+    \ contains=@NoSpell
+    \ fold
+
 highlight default link aichatRole      Comment
 highlight default link aichatReasonBlock Comment
+highlight default link aichatError     ErrorMsg
+highlight default link aichatHiddenBranch Comment
+highlight default link aichatImageBlock Underlined